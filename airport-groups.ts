@@ -0,0 +1,126 @@
+import { checkAirport, isIataCode, lookupAirports, routeStatus } from './airports';
+import { Money } from './money';
+import { AirportPair, DatePrice, FlightData, FlightPriceResult, JourneyPrices } from './types';
+
+// Metropolitan codes for cities Ryanair flies to from more than one airport
+export const CITY_GROUPS: { [code: string]: string[] } = {
+  LON: ['STN', 'LTN', 'LGW'],
+  MIL: ['BGY', 'MXP'],
+  ROM: ['CIA', 'FCO'],
+  STO: ['ARN', 'NYO']
+};
+
+/**
+ * Turn an airport input into the airports to search
+ * @param input One code, city group or airport or city name, or a comma-separated list of them,
+ * e.g. 'LON', 'STN,BGY' or 'Manchester, Milan'
+ * @returns Airport codes in the order given, cities expanded and duplicates dropped; codes of
+ * airports not in the catalog are kept as they are, and other parts that name no airport are left out
+ */
+export function expandAirports(input: string): string[] {
+  const airports: string[] = [];
+  for (const part of input.split(',')) {
+    const group = CITY_GROUPS[part.trim().toUpperCase()];
+    const found = group || lookupAirports(part).map(airport => airport.iata);
+    for (const airport of found.length > 0 ? found : isIataCode(part) ? [part.trim().toUpperCase()] : []) {
+      if (!airports.includes(airport)) {
+        airports.push(airport);
+      }
+    }
+  }
+  return airports;
+}
+
+/**
+ * Validate an airport input as accepted by expandAirports
+ * @param anyAirport Also accept codes of airports the catalog does not have, see checkAirport
+ * @returns An error message, or null if every airport in it is valid
+ */
+export function checkAirports(input: string, field: string, anyAirport: boolean = false): string | null {
+  for (const part of input.split(',')) {
+    const error = CITY_GROUPS[part.trim().toUpperCase()] ? null : checkAirport(part.trim(), field, anyAirport);
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+/**
+ * Every origin and destination combination that Ryanair flies, leaving out the routes the
+ * catalog does not list between its airports; pairs with an airport not in the catalog are kept
+ */
+export function airportPairs(origins: string[], destinations: string[]): AirportPair[] {
+  const pairs: AirportPair[] = [];
+  for (const origin of origins) {
+    for (const destination of destinations) {
+      if (origin !== destination && routeStatus(origin, destination) !== 'unlisted') {
+        pairs.push({ origin, destination });
+      }
+    }
+  }
+  return pairs;
+}
+
+/**
+ * Airports to name a search by in its output: the codes of its only pair, or the airports
+ * as given, e.g. 'LON', when it ranks several pairs together
+ * @param origin Origin input as given, e.g. 'Budapest'
+ * @param origins The origin input expanded, see expandAirports
+ */
+export function searchRoute(origin: string, destination: string, origins: string[], destinations: string[]): AirportPair {
+  const pairs = airportPairs(origins, destinations);
+  return pairs.length === 1 ? pairs[0] : { origin, destination };
+}
+
+/**
+ * Check that at least one pair of the airports is a Ryanair route
+ * @returns An error message, or null if there is something to search
+ */
+export function checkAirportPairs(origins: string[], destinations: string[]): string | null {
+  if (airportPairs(origins, destinations).length > 0) {
+    return null;
+  }
+  if (origins.length === 1 && destinations.length === 1 && origins[0] === destinations[0]) {
+    return `origin and destination are both ${origins[0]}`;
+  }
+  return `Ryanair does not fly from ${origins.join('/')} to ${destinations.join('/')}`;
+}
+
+/**
+ * Merge the results of several airport pairs into one result, each flight and date price tagged
+ * with the pair it was found on, and ranked cheapest first. Prices in different currencies are
+ * ranked apart, in currency code order; entries without a fare come last.
+ */
+export function rankPairResults(results: { pair: AirportPair; flightData: FlightPriceResult }[]): FlightPriceResult {
+  const outbound = rankJourneys(results.map(({ pair, flightData }) => ({ pair, journey: flightData })));
+  const inbound = results
+    .filter(({ flightData }) => flightData.inbound)
+    .map(({ pair, flightData }) => ({ pair: { origin: pair.destination, destination: pair.origin }, journey: flightData.inbound! }));
+
+  return {
+    ...outbound,
+    inbound: inbound.length > 0 ? rankJourneys(inbound) : undefined
+  };
+}
+
+function rankJourneys(journeys: { pair: AirportPair; journey: JourneyPrices }[]): JourneyPrices {
+  const flights: FlightData[] = [];
+  const datePrices: DatePrice[] = [];
+  for (const { pair, journey } of journeys) {
+    flights.push(...journey.flights.map(flight => ({ ...flight, pair })));
+    datePrices.push(...journey.datePrices.map(datePrice => ({ ...datePrice, pair })));
+  }
+  return {
+    flights: flights.sort((a, b) => comparePrices(a.price, b.price)),
+    datePrices: datePrices.sort((a, b) => comparePrices(a.price, b.price) || a.isoDate.localeCompare(b.isoDate))
+  };
+}
+
+const comparePrices = (a: Money | null, b: Money | null): number => {
+  if (!a || !b) {
+    return (a ? 0 : 1) - (b ? 0 : 1);
+  }
+  return a.currency === b.currency ? a.amount - b.amount : a.currency.localeCompare(b.currency);
+};
+
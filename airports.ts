@@ -0,0 +1,683 @@
+export interface Airport {
+  iata: string;
+  // As Ryanair names it, e.g. 'London Stansted'
+  name: string;
+  // City the airport is sold for, e.g. 'London' for Stansted, Luton and Gatwick
+  city: string;
+  // ISO 3166 country code, e.g. 'GB'
+  country: string;
+  // IANA time zone that departure and arrival times are shown in
+  timezone: string;
+  // Airports Ryanair flies to from here; every route is listed at both ends
+  routes: string[];
+}
+
+// Ryanair airports and the routes between them, bundled so inputs can be checked without going online.
+// Only covers the airports this tool is used with; add airports and routes here when the network changes.
+export const AIRPORTS: Airport[] = [
+  {
+    iata: 'ACE',
+    name: 'Lanzarote',
+    city: 'Lanzarote',
+    country: 'ES',
+    timezone: 'Atlantic/Canary',
+    routes: ['BHX', 'BRS', 'DUB', 'EDI', 'EMA', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'AGP',
+    name: 'Malaga',
+    city: 'Malaga',
+    country: 'ES',
+    timezone: 'Europe/Madrid',
+    routes: ['BGY', 'BHX', 'BRS', 'BUD', 'CIA', 'DUB', 'EDI', 'EMA', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'ALC',
+    name: 'Alicante',
+    city: 'Alicante',
+    country: 'ES',
+    timezone: 'Europe/Madrid',
+    routes: ['BHX', 'BRS', 'DUB', 'EDI', 'EMA', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'ARN',
+    name: 'Stockholm Arlanda',
+    city: 'Stockholm',
+    country: 'SE',
+    timezone: 'Europe/Stockholm',
+    routes: ['BGY', 'CIA', 'DUB', 'MLA']
+  },
+  {
+    iata: 'ATH',
+    name: 'Athens',
+    city: 'Athens',
+    country: 'GR',
+    timezone: 'Europe/Athens',
+    routes: ['BGY', 'BUD', 'CIA', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'BCN',
+    name: 'Barcelona El Prat',
+    city: 'Barcelona',
+    country: 'ES',
+    timezone: 'Europe/Madrid',
+    routes: ['BGY', 'BUD', 'CIA', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'BER',
+    name: 'Berlin Brandenburg',
+    city: 'Berlin',
+    country: 'DE',
+    timezone: 'Europe/Berlin',
+    routes: ['BGY', 'CIA', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'BGY',
+    name: 'Milan Bergamo',
+    city: 'Milan',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: [
+      'AGP', 'ARN', 'ATH', 'BCN', 'BER', 'BHX', 'BLL', 'BRI', 'BRS', 'BTS', 'BUD', 'BVA', 'CHQ', 'CPH',
+      'CRL', 'CTA', 'DUB', 'EDI', 'EIN', 'EMA', 'GDN', 'GOT', 'KRK', 'KTW', 'LIS', 'LPL', 'MAD', 'MAN',
+      'MLA', 'MRS', 'NAP', 'NYO', 'OPO', 'OTP', 'PFO', 'PMI', 'PMO', 'PRG', 'RAK', 'SKG', 'SOF', 'STN',
+      'TRF', 'VIE', 'VLC', 'WMI', 'WRO', 'ZAG'
+    ]
+  },
+  {
+    iata: 'BHX',
+    name: 'Birmingham',
+    city: 'Birmingham',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: [
+      'ACE', 'AGP', 'ALC', 'BGY', 'BUD', 'DUB', 'FAO', 'KRK', 'MLA', 'ORK', 'PFO', 'PMI', 'SNN', 'TFS',
+      'WRO'
+    ]
+  },
+  {
+    iata: 'BLL',
+    name: 'Billund',
+    city: 'Billund',
+    country: 'DK',
+    timezone: 'Europe/Copenhagen',
+    routes: ['BGY', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'BLQ',
+    name: 'Bologna',
+    city: 'Bologna',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BUD', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'BOD',
+    name: 'Bordeaux',
+    city: 'Bordeaux',
+    country: 'FR',
+    timezone: 'Europe/Paris',
+    routes: ['DUB', 'STN']
+  },
+  {
+    iata: 'BRI',
+    name: 'Bari',
+    city: 'Bari',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BGY', 'BUD', 'DUB', 'FCO', 'MAN', 'MXP', 'STN']
+  },
+  {
+    iata: 'BRS',
+    name: 'Bristol',
+    city: 'Bristol',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: ['ACE', 'AGP', 'ALC', 'BGY', 'BUD', 'DUB', 'FAO', 'KRK', 'MLA', 'ORK', 'PMI', 'SNN', 'TFS', 'WRO']
+  },
+  {
+    iata: 'BTS',
+    name: 'Bratislava',
+    city: 'Bratislava',
+    country: 'SK',
+    timezone: 'Europe/Bratislava',
+    routes: ['BGY', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'BUD',
+    name: 'Budapest Ferenc Liszt',
+    city: 'Budapest',
+    country: 'HU',
+    timezone: 'Europe/Budapest',
+    routes: [
+      'AGP', 'ATH', 'BCN', 'BGY', 'BHX', 'BLQ', 'BRI', 'BRS', 'BVA', 'CIA', 'CPH', 'CRL', 'DUB', 'EDI',
+      'EIN', 'LIS', 'LPL', 'MAD', 'MAN', 'MLA', 'MRS', 'NAP', 'PFO', 'PMI', 'PSA', 'STN', 'TSF', 'VLC'
+    ]
+  },
+  {
+    iata: 'BVA',
+    name: 'Paris Beauvais',
+    city: 'Paris',
+    country: 'FR',
+    timezone: 'Europe/Paris',
+    routes: ['BGY', 'BUD', 'CIA', 'DUB', 'EDI']
+  },
+  {
+    iata: 'CHQ',
+    name: 'Chania',
+    city: 'Chania',
+    country: 'GR',
+    timezone: 'Europe/Athens',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'CIA',
+    name: 'Rome Ciampino',
+    city: 'Rome',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: [
+      'AGP', 'ARN', 'ATH', 'BCN', 'BER', 'BUD', 'BVA', 'CRL', 'DUB', 'EDI', 'EIN', 'KRK', 'MAD', 'MAN',
+      'MLA', 'STN', 'VLC', 'WMI'
+    ]
+  },
+  {
+    iata: 'CPH',
+    name: 'Copenhagen',
+    city: 'Copenhagen',
+    country: 'DK',
+    timezone: 'Europe/Copenhagen',
+    routes: ['BGY', 'BUD', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'CRL',
+    name: 'Brussels Charleroi',
+    city: 'Brussels',
+    country: 'BE',
+    timezone: 'Europe/Brussels',
+    routes: ['BGY', 'BUD', 'CIA', 'DUB']
+  },
+  {
+    iata: 'CTA',
+    name: 'Catania',
+    city: 'Catania',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BGY', 'DUB', 'FCO', 'MAN', 'MXP', 'STN']
+  },
+  {
+    iata: 'DUB',
+    name: 'Dublin',
+    city: 'Dublin',
+    country: 'IE',
+    timezone: 'Europe/Dublin',
+    routes: [
+      'ACE', 'AGP', 'ALC', 'ARN', 'ATH', 'BCN', 'BER', 'BGY', 'BHX', 'BLL', 'BLQ', 'BOD', 'BRI', 'BRS',
+      'BTS', 'BUD', 'BVA', 'CHQ', 'CIA', 'CPH', 'CRL', 'CTA', 'EDI', 'EIN', 'EMA', 'FAO', 'GDN', 'GOT',
+      'KRK', 'KTW', 'LGW', 'LIS', 'LPL', 'LTN', 'MAD', 'MAN', 'MLA', 'MRS', 'NAP', 'OPO', 'OTP', 'PFO',
+      'PMI', 'PMO', 'POZ', 'PRG', 'PSA', 'RAK', 'SKG', 'SOF', 'STN', 'SVQ', 'TFS', 'TRF', 'TSF', 'VIE',
+      'VLC', 'WMI', 'WRO', 'ZAG'
+    ]
+  },
+  {
+    iata: 'EDI',
+    name: 'Edinburgh',
+    city: 'Edinburgh',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: [
+      'ACE', 'AGP', 'ALC', 'BCN', 'BER', 'BGY', 'BLL', 'BTS', 'BUD', 'BVA', 'CIA', 'CPH', 'DUB', 'FAO',
+      'GDN', 'KRK', 'KTW', 'LIS', 'MAD', 'MLA', 'NAP', 'ORK', 'PMI', 'POZ', 'PRG', 'SNN', 'TFS', 'WMI',
+      'WRO'
+    ]
+  },
+  {
+    iata: 'EIN',
+    name: 'Eindhoven',
+    city: 'Eindhoven',
+    country: 'NL',
+    timezone: 'Europe/Amsterdam',
+    routes: ['BGY', 'BUD', 'CIA', 'DUB']
+  },
+  {
+    iata: 'EMA',
+    name: 'East Midlands',
+    city: 'Nottingham',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: ['ACE', 'AGP', 'ALC', 'BGY', 'DUB', 'FAO', 'KRK', 'MLA', 'PMI', 'TFS', 'WRO']
+  },
+  {
+    iata: 'FAO',
+    name: 'Faro',
+    city: 'Faro',
+    country: 'PT',
+    timezone: 'Europe/Lisbon',
+    routes: ['BHX', 'BRS', 'DUB', 'EDI', 'EMA', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'FCO',
+    name: 'Rome Fiumicino',
+    city: 'Rome',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BRI', 'CTA', 'PMO']
+  },
+  {
+    iata: 'GDN',
+    name: 'Gdansk',
+    city: 'Gdansk',
+    country: 'PL',
+    timezone: 'Europe/Warsaw',
+    routes: ['BGY', 'DUB', 'EDI', 'LPL', 'LTN', 'MAN', 'STN']
+  },
+  {
+    iata: 'GOT',
+    name: 'Gothenburg',
+    city: 'Gothenburg',
+    country: 'SE',
+    timezone: 'Europe/Stockholm',
+    routes: ['BGY', 'DUB', 'STN']
+  },
+  {
+    iata: 'KRK',
+    name: 'Krakow',
+    city: 'Krakow',
+    country: 'PL',
+    timezone: 'Europe/Warsaw',
+    routes: ['BGY', 'BHX', 'BRS', 'CIA', 'DUB', 'EDI', 'EMA', 'LPL', 'LTN', 'MAN', 'STN']
+  },
+  {
+    iata: 'KTW',
+    name: 'Katowice',
+    city: 'Katowice',
+    country: 'PL',
+    timezone: 'Europe/Warsaw',
+    routes: ['BGY', 'DUB', 'EDI', 'LPL', 'LTN', 'MAN', 'STN']
+  },
+  {
+    iata: 'LGW',
+    name: 'London Gatwick',
+    city: 'London',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: ['DUB', 'ORK', 'SNN']
+  },
+  {
+    iata: 'LIS',
+    name: 'Lisbon',
+    city: 'Lisbon',
+    country: 'PT',
+    timezone: 'Europe/Lisbon',
+    routes: ['BGY', 'BUD', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'LPL',
+    name: 'Liverpool',
+    city: 'Liverpool',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: [
+      'ACE', 'AGP', 'ALC', 'BGY', 'BUD', 'DUB', 'FAO', 'GDN', 'KRK', 'KTW', 'MLA', 'ORK', 'PMI', 'POZ',
+      'SNN', 'TFS', 'WMI', 'WRO'
+    ]
+  },
+  {
+    iata: 'LTN',
+    name: 'London Luton',
+    city: 'London',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: ['DUB', 'GDN', 'KRK', 'KTW', 'WRO']
+  },
+  {
+    iata: 'MAD',
+    name: 'Madrid Barajas',
+    city: 'Madrid',
+    country: 'ES',
+    timezone: 'Europe/Madrid',
+    routes: ['BGY', 'BUD', 'CIA', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'MAN',
+    name: 'Manchester',
+    city: 'Manchester',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: [
+      'ACE', 'AGP', 'ALC', 'ATH', 'BCN', 'BER', 'BGY', 'BLL', 'BLQ', 'BRI', 'BTS', 'BUD', 'CHQ', 'CIA',
+      'CPH', 'CTA', 'DUB', 'FAO', 'GDN', 'KRK', 'KTW', 'LIS', 'MAD', 'MLA', 'NAP', 'OPO', 'ORK', 'OTP',
+      'PFO', 'PMI', 'POZ', 'PRG', 'RAK', 'SKG', 'SNN', 'SOF', 'SVQ', 'TFS', 'TSF', 'VIE', 'VLC', 'WMI',
+      'WRO', 'ZAG'
+    ]
+  },
+  {
+    iata: 'MLA',
+    name: 'Malta',
+    city: 'Malta',
+    country: 'MT',
+    timezone: 'Europe/Malta',
+    routes: ['ARN', 'BGY', 'BHX', 'BRS', 'BUD', 'CIA', 'DUB', 'EDI', 'EMA', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'MRS',
+    name: 'Marseille',
+    city: 'Marseille',
+    country: 'FR',
+    timezone: 'Europe/Paris',
+    routes: ['BGY', 'BUD', 'DUB', 'STN']
+  },
+  {
+    iata: 'MXP',
+    name: 'Milan Malpensa',
+    city: 'Milan',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BRI', 'CTA', 'PMO']
+  },
+  {
+    iata: 'NAP',
+    name: 'Naples',
+    city: 'Naples',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BGY', 'BUD', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'NYO',
+    name: 'Stockholm Skavsta',
+    city: 'Stockholm',
+    country: 'SE',
+    timezone: 'Europe/Stockholm',
+    routes: ['BGY', 'STN']
+  },
+  {
+    iata: 'OPO',
+    name: 'Porto',
+    city: 'Porto',
+    country: 'PT',
+    timezone: 'Europe/Lisbon',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'ORK',
+    name: 'Cork',
+    city: 'Cork',
+    country: 'IE',
+    timezone: 'Europe/Dublin',
+    routes: ['BHX', 'BRS', 'EDI', 'LGW', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'OTP',
+    name: 'Bucharest',
+    city: 'Bucharest',
+    country: 'RO',
+    timezone: 'Europe/Bucharest',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'PFO',
+    name: 'Paphos',
+    city: 'Paphos',
+    country: 'CY',
+    timezone: 'Asia/Nicosia',
+    routes: ['BGY', 'BHX', 'BUD', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'PMI',
+    name: 'Palma de Mallorca',
+    city: 'Palma de Mallorca',
+    country: 'ES',
+    timezone: 'Europe/Madrid',
+    routes: ['BGY', 'BHX', 'BRS', 'BUD', 'DUB', 'EDI', 'EMA', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'PMO',
+    name: 'Palermo',
+    city: 'Palermo',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BGY', 'DUB', 'FCO', 'MXP', 'STN']
+  },
+  {
+    iata: 'POZ',
+    name: 'Poznan',
+    city: 'Poznan',
+    country: 'PL',
+    timezone: 'Europe/Warsaw',
+    routes: ['DUB', 'EDI', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'PRG',
+    name: 'Prague',
+    city: 'Prague',
+    country: 'CZ',
+    timezone: 'Europe/Prague',
+    routes: ['BGY', 'DUB', 'EDI', 'MAN', 'STN']
+  },
+  {
+    iata: 'PSA',
+    name: 'Pisa',
+    city: 'Pisa',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BUD', 'DUB', 'STN']
+  },
+  {
+    iata: 'RAK',
+    name: 'Marrakesh',
+    city: 'Marrakesh',
+    country: 'MA',
+    timezone: 'Africa/Casablanca',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'SKG',
+    name: 'Thessaloniki',
+    city: 'Thessaloniki',
+    country: 'GR',
+    timezone: 'Europe/Athens',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'SNN',
+    name: 'Shannon',
+    city: 'Shannon',
+    country: 'IE',
+    timezone: 'Europe/Dublin',
+    routes: ['BHX', 'BRS', 'EDI', 'LGW', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'SOF',
+    name: 'Sofia',
+    city: 'Sofia',
+    country: 'BG',
+    timezone: 'Europe/Sofia',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'STN',
+    name: 'London Stansted',
+    city: 'London',
+    country: 'GB',
+    timezone: 'Europe/London',
+    routes: [
+      'ACE', 'AGP', 'ALC', 'ATH', 'BCN', 'BER', 'BGY', 'BLL', 'BLQ', 'BOD', 'BRI', 'BTS', 'BUD', 'CHQ',
+      'CIA', 'CPH', 'CTA', 'DUB', 'FAO', 'GDN', 'GOT', 'KRK', 'KTW', 'LIS', 'MAD', 'MLA', 'MRS', 'NAP',
+      'NYO', 'OPO', 'ORK', 'OTP', 'PFO', 'PMI', 'PMO', 'POZ', 'PRG', 'PSA', 'RAK', 'SKG', 'SNN', 'SOF',
+      'SVQ', 'TFS', 'TRF', 'TSF', 'VIE', 'VLC', 'WMI', 'WRO', 'ZAG'
+    ]
+  },
+  {
+    iata: 'SVQ',
+    name: 'Seville',
+    city: 'Seville',
+    country: 'ES',
+    timezone: 'Europe/Madrid',
+    routes: ['DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'TFS',
+    name: 'Tenerife South',
+    city: 'Tenerife',
+    country: 'ES',
+    timezone: 'Atlantic/Canary',
+    routes: ['BHX', 'BRS', 'DUB', 'EDI', 'EMA', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'TRF',
+    name: 'Oslo Torp',
+    city: 'Oslo',
+    country: 'NO',
+    timezone: 'Europe/Oslo',
+    routes: ['BGY', 'DUB', 'STN']
+  },
+  {
+    iata: 'TSF',
+    name: 'Venice Treviso',
+    city: 'Venice',
+    country: 'IT',
+    timezone: 'Europe/Rome',
+    routes: ['BUD', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'VIE',
+    name: 'Vienna',
+    city: 'Vienna',
+    country: 'AT',
+    timezone: 'Europe/Vienna',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'VLC',
+    name: 'Valencia',
+    city: 'Valencia',
+    country: 'ES',
+    timezone: 'Europe/Madrid',
+    routes: ['BGY', 'BUD', 'CIA', 'DUB', 'MAN', 'STN']
+  },
+  {
+    iata: 'WMI',
+    name: 'Warsaw Modlin',
+    city: 'Warsaw',
+    country: 'PL',
+    timezone: 'Europe/Warsaw',
+    routes: ['BGY', 'CIA', 'DUB', 'EDI', 'LPL', 'MAN', 'STN']
+  },
+  {
+    iata: 'WRO',
+    name: 'Wroclaw',
+    city: 'Wroclaw',
+    country: 'PL',
+    timezone: 'Europe/Warsaw',
+    routes: ['BGY', 'BHX', 'BRS', 'DUB', 'EDI', 'EMA', 'LPL', 'LTN', 'MAN', 'STN']
+  },
+  {
+    iata: 'ZAG',
+    name: 'Zagreb',
+    city: 'Zagreb',
+    country: 'HR',
+    timezone: 'Europe/Zagreb',
+    routes: ['BGY', 'DUB', 'MAN', 'STN']
+  }
+];
+
+const AIRPORTS_BY_CODE = new Map(AIRPORTS.map(airport => [airport.iata, airport]));
+
+export const findAirport = (code: string): Airport | null => AIRPORTS_BY_CODE.get(code.trim().toUpperCase()) || null;
+
+// Lower case without accents, punctuation or a trailing 'airport', so 'Kraków Airport' matches 'Krakow'
+const simplify = (text: string): string =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()
+    .replace(/[^a-z]+/g, ' ').replace(/\bairport\b/g, '').trim();
+
+/**
+ * Find the airports an input names
+ * @param text An airport code, or an airport or city name in any case, e.g. 'BUD', 'Manchester', 'london' or 'Milan Bergamo'
+ * @returns The airport of a code or airport name, every airport of a city name, or none if nothing matches
+ */
+export function lookupAirports(text: string): Airport[] {
+  const byCode = findAirport(text);
+  if (byCode) {
+    return [byCode];
+  }
+  const key = simplify(text);
+  if (!key) {
+    return [];
+  }
+  const byName = AIRPORTS.filter(airport => simplify(airport.name) === key);
+  return byName.length > 0 ? byName : AIRPORTS.filter(airport => simplify(airport.city) === key);
+}
+
+/**
+ * Airport code for an airport as a page shows it, e.g. 'London Stansted', 'Manchester (MAN)' or 'BUD'
+ * @returns The code, or null when the text names no airport in the catalog, or a city with several airports
+ */
+export function normalizeAirport(text: string | undefined): string | null {
+  if (!text) {
+    return null;
+  }
+  const code = (text.match(/\b[A-Z]{3}\b/g) || []).find(candidate => findAirport(candidate));
+  if (code) {
+    return code;
+  }
+  const airports = lookupAirports(text.replace(/\(.*?\)/g, ''));
+  return airports.length === 1 ? airports[0].iata : null;
+}
+
+// Currencies of the catalog's countries outside the euro area; Ryanair sells fares in the currency of the departure country
+const COUNTRY_CURRENCIES: { [country: string]: string } = {
+  CZ: 'CZK',
+  DK: 'DKK',
+  GB: 'GBP',
+  HU: 'HUF',
+  MA: 'MAD',
+  NO: 'NOK',
+  PL: 'PLN',
+  RO: 'RON',
+  SE: 'SEK'
+};
+
+/**
+ * Currency fares from an airport are sold in, used to read prices whose symbol several currencies share
+ * @returns ISO 4217 code, or null for airports not in the catalog
+ */
+export function airportCurrency(code: string): string | null {
+  const airport = findAirport(code);
+  return airport ? COUNTRY_CURRENCIES[airport.country] || 'EUR' : null;
+}
+
+// Codes of airports the catalog does not have can still be searched when asked for, just not checked
+export const isIataCode = (text: string): boolean => /^[A-Za-z]{3}$/.test(text.trim());
+
+/**
+ * Whether the catalog lists a route, in any case, e.g. hasRyanairRoute('bud', 'man')
+ */
+export function hasRyanairRoute(origin: string, destination: string): boolean {
+  const to = findAirport(destination);
+  return !!to && !!findAirport(origin)?.routes.includes(to.iata);
+}
+
+// 'unknown' when the catalog does not have one of the airports, so the route cannot be checked
+export type RouteStatus = 'listed' | 'unlisted' | 'unknown';
+
+export function routeStatus(origin: string, destination: string): RouteStatus {
+  if (!findAirport(origin) || !findAirport(destination)) {
+    return 'unknown';
+  }
+  return hasRyanairRoute(origin, destination) ? 'listed' : 'unlisted';
+}
+
+/**
+ * Validate an airport input: an airport code, airport name or city name in the catalog
+ * @param anyAirport Also accept codes of airports the catalog does not have, which then cannot be checked
+ * @returns An error message, or null if the text names at least one airport
+ */
+export function checkAirport(text: string, field: string, anyAirport: boolean = false): string | null {
+  if (lookupAirports(text).length > 0 || (anyAirport && isIataCode(text))) {
+    return null;
+  }
+  return isIataCode(text)
+    ? `${field} "${text}" is not an airport in the catalog; check the code, or allow airports outside the catalog with --any-airport (or "anyAirport": true in a watch)`
+    : `${field} "${text}" is not an airport code or an airport or city in the catalog; use an IATA code such as BUD or a city such as Manchester`;
+}
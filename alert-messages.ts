@@ -0,0 +1,206 @@
+import { formatMoney, Money } from './money';
+import { AlertMessage } from './notifier';
+
+export interface AlertEntry {
+  origin: string;
+  destination: string;
+  date: string;
+  previousPrice: Money | null;
+  currentPrice: Money;
+  // One line per rule that fired, e.g. 'drop of at least 10%: dropped 12.5% (from 40.00 EUR)'
+  reasons: string[];
+  // Prices stored for the date before this one, oldest first
+  history: Money[];
+  // Flight selection page for the date, so the fare can be booked straight from the alert
+  bookingUrl: string;
+  // Fare bundle the prices are for, e.g. 'Regular'; absent for the headline fare
+  bundle?: string;
+}
+
+/**
+ * Build the message for a single alert, sent as soon as it fires
+ * @param summary Short description of what fired, added to the subject
+ */
+export function formatAlert(entry: AlertEntry, summary: string): AlertMessage {
+  const route = routeLabel(entry);
+  const previous = entry.previousPrice ? formatMoney(entry.previousPrice) : 'N/A';
+  const history = formatHistory(entry);
+
+  const text = [
+    `Previous price: ${previous}, Current price: ${formatMoney(entry.currentPrice)}`,
+    `Rules fired:\n${entry.reasons.map(reason => `- ${reason}`).join('\n')}`,
+    ...(history ? [history] : []),
+    `Book: ${entry.bookingUrl}`
+  ].join('\n\n');
+
+  const html = htmlDocument(`
+    <h2 style="margin:0 0 4px">${escapeHtml(route)}</h2>
+    <p style="margin:0 0 16px;color:#555">${escapeHtml(entry.date)}</p>
+    <p style="margin:0;font-size:24px;font-weight:bold">${escapeHtml(formatMoney(entry.currentPrice))}</p>
+    <p style="margin:0 0 16px;color:#555">${entry.previousPrice
+      ? `Previously ${escapeHtml(previous)}, change ${escapeHtml(formatChange(entry.previousPrice, entry.currentPrice))}`
+      : 'No earlier price for this date'}</p>
+    ${sparklineBlock(entry)}
+    <p style="margin:16px 0 4px;font-weight:bold">Rules fired</p>
+    <ul style="margin:0 0 16px;padding-left:20px">${entry.reasons.map(reason => `<li>${escapeHtml(reason)}</li>`).join('')}</ul>
+    ${bookingButton(entry.bookingUrl)}`);
+
+  return {
+    subject: `Price alert for ${entry.date} (${route}): ${summary}`,
+    text,
+    html,
+    data: { ...entry }
+  };
+}
+
+/**
+ * Build the digest message: one table per route with date, old price, new price and change
+ */
+export function formatDigest(entries: AlertEntry[]): AlertMessage {
+  const byRoute = new Map<string, AlertEntry[]>();
+  for (const entry of entries) {
+    const route = routeLabel(entry);
+    byRoute.set(route, [...(byRoute.get(route) || []), entry]);
+  }
+  const routes = Array.from(byRoute.entries()).map(([route, routeEntries]) =>
+    ({ route, entries: routeEntries.sort((a, b) => a.date.localeCompare(b.date)) }));
+
+  const sections = routes.map(({ route, entries: routeEntries }) => {
+    const rows = routeEntries.map(entry => [
+      entry.date,
+      entry.previousPrice ? formatMoney(entry.previousPrice) : 'N/A',
+      formatMoney(entry.currentPrice),
+      formatChange(entry.previousPrice, entry.currentPrice)
+    ]);
+    const reasons = routeEntries.map(entry => `${entry.date}: ${entry.reasons.join('; ')}\n  Book: ${entry.bookingUrl}`);
+
+    return `${route}\n${formatTable(['Date', 'Old price', 'New price', 'Change'], rows)}\n\n${reasons.join('\n')}`;
+  });
+
+  const htmlSections = routes.map(({ route, entries: routeEntries }) => {
+    const cell = 'padding:6px 8px;border-bottom:1px solid #eee;vertical-align:middle';
+    const rows = routeEntries.map(entry => `
+      <tr>
+        <td style="${cell}">${escapeHtml(entry.date)}</td>
+        <td style="${cell}">${escapeHtml(entry.previousPrice ? formatMoney(entry.previousPrice) : 'N/A')}</td>
+        <td style="${cell};font-weight:bold">${escapeHtml(formatMoney(entry.currentPrice))}</td>
+        <td style="${cell}">${escapeHtml(formatChange(entry.previousPrice, entry.currentPrice))}</td>
+        <td style="${cell}">${sparklineSvg(entry)}</td>
+        <td style="${cell}"><a href="${escapeHtml(entry.bookingUrl)}">Book</a></td>
+      </tr>
+      <tr><td colspan="6" style="padding:0 8px 8px;color:#555;font-size:13px">${entry.reasons.map(escapeHtml).join('<br>')}</td></tr>`);
+
+    return `
+    <h3 style="margin:24px 0 8px">${escapeHtml(route)}</h3>
+    <table style="border-collapse:collapse;font-size:14px">
+      <tr>${['Date', 'Old price', 'New price', 'Change', 'History', ''].map(header =>
+        `<th style="text-align:left;padding:6px 8px;border-bottom:2px solid #ccc">${header}</th>`).join('')}</tr>
+      ${rows.join('')}
+    </table>`;
+  });
+
+  return {
+    subject: `Price alerts: ${entries.length} date${entries.length === 1 ? '' : 's'} on ${routes.length} route${routes.length === 1 ? '' : 's'}`,
+    text: sections.join('\n\n'),
+    html: htmlDocument(htmlSections.join('')),
+    data: { entries }
+  };
+}
+
+/**
+ * Build the message sent when a search could not be completed
+ * @param name Watch or search that failed, e.g. 'Budapest to Manchester, summer'
+ * @param dates Dates that were being searched, e.g. '2025-09-01 to 2025-09-30'
+ * @param reason Why it failed, e.g. 'bot-protection: Blocked by bot protection: HTTP 403'
+ */
+export function formatFailure(name: string, origin: string, destination: string, dates: string, reason: string): AlertMessage {
+  const route = `${origin} -> ${destination}`;
+  return {
+    subject: `Price check failed for ${name} (${route})`,
+    text: `Could not check prices for ${route} on ${dates}.\n\nReason: ${reason}`,
+    html: htmlDocument(`
+    <h2 style="margin:0 0 4px">${escapeHtml(route)}</h2>
+    <p style="margin:0 0 16px;color:#555">${escapeHtml(dates)}</p>
+    <p style="margin:0 0 4px;font-weight:bold">Could not check prices for ${escapeHtml(name)}</p>
+    <p style="margin:0">${escapeHtml(reason)}</p>`),
+    data: { name, origin, destination, dates, reason }
+  };
+}
+
+// Prices of a bundle are kept apart from the headline fares of the same route
+const routeLabel = (entry: AlertEntry): string =>
+  `${entry.origin} -> ${entry.destination}${entry.bundle ? ` (${entry.bundle})` : ''}`;
+
+/**
+ * Inline SVG line of the stored prices for the date followed by the current one.
+ * Prices in another currency are left out. Empty when there is nothing to compare with.
+ */
+export function sparklineSvg(entry: Pick<AlertEntry, 'history' | 'currentPrice'>, width = 160, height = 40): string {
+  const amounts = pricePoints(entry);
+  if (amounts.length < 2) {
+    return '';
+  }
+
+  const pad = 3;
+  const min = Math.min(...amounts);
+  const max = Math.max(...amounts);
+  // A flat history is drawn through the middle
+  const y = (amount: number) => max === min ? height / 2 : pad + (max - amount) / (max - min) * (height - 2 * pad);
+  const x = (index: number) => pad + index / (amounts.length - 1) * (width - 2 * pad);
+  const points = amounts.map((amount, index) => `${x(index).toFixed(1)},${y(amount).toFixed(1)}`).join(' ');
+  const last = amounts.length - 1;
+
+  return `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" role="img">` +
+    `<title>${escapeHtml(formatHistory(entry))}</title>` +
+    `<polyline points="${points}" fill="none" stroke="#073590" stroke-width="2" stroke-linejoin="round"/>` +
+    `<circle cx="${x(last).toFixed(1)}" cy="${y(amounts[last]).toFixed(1)}" r="3" fill="#f1c933"/>` +
+    `</svg>`;
+}
+
+const pricePoints = ({ history, currentPrice }: Pick<AlertEntry, 'history' | 'currentPrice'>): number[] => [
+  ...history.filter(price => price.currency === currentPrice.currency).map(price => price.amount),
+  currentPrice.amount
+];
+
+// One-line summary of the history, e.g. 'Price history (5 checks): low 19.99 EUR, high 45.00 EUR'
+const formatHistory = (entry: Pick<AlertEntry, 'history' | 'currentPrice'>): string => {
+  const amounts = pricePoints(entry);
+  if (amounts.length < 2) {
+    return '';
+  }
+  const currency = entry.currentPrice.currency;
+  return `Price history (${amounts.length} checks): ` +
+    `low ${formatMoney({ amount: Math.min(...amounts), currency })}, high ${formatMoney({ amount: Math.max(...amounts), currency })}`;
+};
+
+const sparklineBlock = (entry: AlertEntry): string => {
+  const svg = sparklineSvg(entry, 240, 60);
+  return svg ? `<div>${svg}</div><p style="margin:4px 0 0;color:#555;font-size:13px">${escapeHtml(formatHistory(entry))}</p>` : '';
+};
+
+const bookingButton = (url: string): string =>
+  `<a href="${escapeHtml(url)}" style="display:inline-block;padding:10px 16px;background:#073590;color:#fff;text-decoration:none;border-radius:4px">View on Ryanair</a>`;
+
+// Inline styles only, since most mail clients drop <style> blocks
+const htmlDocument = (body: string): string =>
+  `<!DOCTYPE html><html><body style="font-family:Arial,Helvetica,sans-serif;color:#222;margin:0;padding:16px">${body}\n</body></html>`;
+
+const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const formatChange = (previous: Money | null, current: Money): string => {
+  if (!previous || previous.currency !== current.currency || previous.amount === 0) {
+    return 'N/A';
+  }
+  const change = current.amount - previous.amount;
+  const percent = change / previous.amount * 100;
+  const sign = change > 0 ? '+' : change < 0 ? '-' : '';
+  return `${sign}${formatMoney({ amount: Math.abs(change), currency: current.currency })} (${sign}${Math.abs(percent).toFixed(1)}%)`;
+};
+
+// Plain-text table with padded columns, readable in any mail client using a monospace font
+const formatTable = (headers: string[], rows: string[][]): string => {
+  const widths = headers.map((header, column) => Math.max(header.length, ...rows.map(row => row[column].length)));
+  const line = (cells: string[]) => cells.map((cell, column) => cell.padEnd(widths[column])).join('  ').trimEnd();
+  return [line(headers), line(widths.map(width => '-'.repeat(width))), ...rows.map(line)].join('\n');
+};
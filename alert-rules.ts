@@ -0,0 +1,151 @@
+import { formatMoney, Money, moneyFromDecimal } from './money';
+import { StoredPrice } from './price-store';
+
+export type AlertRule = (
+  // Price is at or below a fixed ceiling, given in major units (e.g. 29.99)
+  | { type: 'priceCeiling'; max: number; currency: string }
+  // Price fell by at least this percentage since the last stored price
+  | { type: 'percentDrop'; minPercent: number }
+  // Price fell by at least this amount since the last stored price, in major units
+  | { type: 'absoluteDrop'; minAmount: number; currency: string }
+  // Price is lower than every stored price for the date
+  | { type: 'allTimeLow' }
+  // Price is below the median of the prices stored over the last N days
+  | { type: 'belowMedian'; days: number }
+) & {
+  // Send at once instead of waiting for the end-of-run digest
+  urgent?: boolean;
+};
+
+// Any drop at all, as before rules existed
+export const DEFAULT_RULES: AlertRule[] = [{ type: 'percentDrop', minPercent: 0 }];
+
+export interface RuleContext {
+  current: Money;
+  // Stored prices for the same route and date, oldest first, not including the current one
+  history: StoredPrice[];
+  now?: Date;
+}
+
+export interface RuleMatch {
+  rule: AlertRule;
+  // Why the rule fired, e.g. 'dropped 12.5% (from 40.00 EUR)'
+  reason: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Short human-readable name of a rule, e.g. 'drop of at least 10%'
+ */
+export function describeRule(rule: AlertRule): string {
+  switch (rule.type) {
+    case 'priceCeiling':
+      return `price at or below ${rule.max} ${rule.currency}`;
+    case 'percentDrop':
+      return rule.minPercent > 0 ? `drop of at least ${rule.minPercent}%` : 'any price drop';
+    case 'absoluteDrop':
+      return `drop of at least ${rule.minAmount} ${rule.currency}`;
+    case 'allTimeLow':
+      return 'new all-time low';
+    case 'belowMedian':
+      return `below the ${rule.days}-day median`;
+  }
+}
+
+/**
+ * Check a current price against a list of rules
+ * @returns The rules that fired, with the reason for each
+ */
+export function evaluateRules(rules: AlertRule[], context: RuleContext): RuleMatch[] {
+  const matches: RuleMatch[] = [];
+  for (const rule of rules) {
+    const reason = evaluateRule(rule, context);
+    if (reason) {
+      matches.push({ rule, reason });
+    }
+  }
+  return matches;
+}
+
+function evaluateRule(rule: AlertRule, { current, history, now = new Date() }: RuleContext): string | null {
+  // Prices in another currency cannot be compared with the current one
+  const comparable = history
+    .map(row => row.price)
+    .filter((price): price is Money => !!price && price.currency === current.currency);
+  const previous = comparable.length > 0 ? comparable[comparable.length - 1] : null;
+
+  switch (rule.type) {
+    case 'priceCeiling': {
+      const max = moneyFromDecimal(rule.max, rule.currency);
+      if (!max || max.currency !== current.currency) return null;
+      return current.amount <= max.amount ? `${formatMoney(current)} is at or below ${formatMoney(max)}` : null;
+    }
+
+    case 'percentDrop': {
+      if (!previous || current.amount >= previous.amount) return null;
+      const percent = (previous.amount - current.amount) / previous.amount * 100;
+      return percent >= rule.minPercent ? `dropped ${percent.toFixed(1)}% (from ${formatMoney(previous)})` : null;
+    }
+
+    case 'absoluteDrop': {
+      const minDrop = moneyFromDecimal(rule.minAmount, rule.currency);
+      if (!previous || !minDrop || minDrop.currency !== current.currency) return null;
+      const drop = previous.amount - current.amount;
+      return drop > 0 && drop >= minDrop.amount
+        ? `dropped by ${formatMoney({ amount: drop, currency: current.currency })} (from ${formatMoney(previous)})`
+        : null;
+    }
+
+    case 'allTimeLow': {
+      if (comparable.length === 0) return null;
+      const lowest = Math.min(...comparable.map(price => price.amount));
+      return current.amount < lowest
+        ? `new all-time low (previous low ${formatMoney({ amount: lowest, currency: current.currency })})`
+        : null;
+    }
+
+    case 'belowMedian': {
+      const since = now.getTime() - rule.days * DAY_MS;
+      const recent = history
+        .filter(row => new Date(row.createdAt).getTime() >= since)
+        .map(row => row.price)
+        .filter((price): price is Money => !!price && price.currency === current.currency)
+        .map(price => price.amount)
+        .sort((a, b) => a - b);
+      if (recent.length === 0) return null;
+      const middle = Math.floor(recent.length / 2);
+      const median = recent.length % 2 === 1 ? recent[middle] : Math.round((recent[middle - 1] + recent[middle]) / 2);
+      return current.amount < median
+        ? `below the ${rule.days}-day median of ${formatMoney({ amount: median, currency: current.currency })}`
+        : null;
+    }
+  }
+}
+
+/**
+ * Validate a rule read from a config file
+ * @returns An error message, or null if the rule is valid
+ */
+export function checkRule(rule: AlertRule): string | null {
+  const isPositive = (value: unknown) => typeof value === 'number' && isFinite(value) && value >= 0;
+
+  if (rule.urgent !== undefined && typeof rule.urgent !== 'boolean') {
+    return `${rule.type} rule has a non-boolean "urgent"`;
+  }
+
+  switch (rule.type) {
+    case 'priceCeiling':
+      return isPositive(rule.max) && rule.currency ? null : 'priceCeiling rule needs "max" and "currency"';
+    case 'percentDrop':
+      return isPositive(rule.minPercent) ? null : 'percentDrop rule needs a non-negative "minPercent"';
+    case 'absoluteDrop':
+      return isPositive(rule.minAmount) && rule.currency ? null : 'absoluteDrop rule needs "minAmount" and "currency"';
+    case 'allTimeLow':
+      return null;
+    case 'belowMedian':
+      return Number.isInteger(rule.days) && rule.days > 0 ? null : 'belowMedian rule needs a positive whole number of "days"';
+    default:
+      return `unknown alert rule type "${(rule as { type: string }).type}"`;
+  }
+}
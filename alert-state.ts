@@ -0,0 +1,190 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { AlertRule, RuleMatch } from './alert-rules';
+import { Money, moneyFromDecimal } from './money';
+
+// What was last announced for one rule on one route and flight date
+export interface AlertState {
+  origin: string;
+  destination: string;
+  date: string;
+  // Fare bundle the prices are in, e.g. 'Flexi Plus'; absent for the headline fare
+  bundle?: string;
+  // Stable key of the rule, see ruleKey
+  rule: string;
+  firedAt: string;
+  // Price when the alert was last announced
+  price: Money;
+  // Lowest price seen since then, used to tell when the price has gone back up
+  lowestPrice: Money;
+  // True once the price has risen enough that the next match is announced again
+  rearmed: boolean;
+}
+
+export interface AlertStateStore {
+  get(id: string): Promise<AlertState | null>;
+  put(state: AlertState): Promise<void>;
+  list(): Promise<AlertState[]>;
+}
+
+export interface AlertAnnouncement {
+  // Matches that should be announced now
+  matches: RuleMatch[];
+  // Record the matches as announced; call it once they have been delivered, so an alert
+  // that could not be sent is announced again on the next run instead of being suppressed
+  confirm(): Promise<void>;
+}
+
+export interface AlertStateSettings {
+  // Never announce the same rule for the same date more often than this
+  cooldownHours: number;
+  // How far the price has to climb back above its low (in major units) before a match is announced again
+  rearmAmount: number;
+}
+
+export const DEFAULT_ALERT_STATE_SETTINGS: AlertStateSettings = {
+  cooldownHours: 24,
+  rearmAmount: 0
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const ruleKey = (rule: AlertRule): string => JSON.stringify(rule);
+
+const stateId = (origin: string, destination: string, date: string, bundle: string | undefined, rule: string): string =>
+  `${origin}|${destination}|${date}|${bundle || ''}|${rule}`;
+
+/**
+ * Drop rule matches that were already announced, and update the stored state for every rule.
+ * The matches to announce are only recorded once the returned announcement is confirmed.
+ * A match is announced when the rule has no state yet, or when the cooldown has passed and the
+ * price has either gone back up by rearmAmount since the last announcement or fallen by as much again.
+ * @param bundle Fare bundle the price is in, kept apart from the headline fare and other bundles
+ * @param matches Rules that fired for the current price
+ * @param rules Every rule configured for the watch, so states of rules that did not fire are still updated
+ * @returns The matches that should be announced now, and how to record them once sent
+ */
+export async function filterAnnouncedAlerts(
+  store: AlertStateStore,
+  origin: string,
+  destination: string,
+  date: string,
+  bundle: string | undefined,
+  current: Money,
+  matches: RuleMatch[],
+  rules: AlertRule[],
+  settings: AlertStateSettings = DEFAULT_ALERT_STATE_SETTINGS,
+  now: Date = new Date()
+): Promise<AlertAnnouncement> {
+  const rearm = moneyFromDecimal(settings.rearmAmount, current.currency);
+  const rearmAmount = rearm ? rearm.amount : 0;
+  const announce: RuleMatch[] = [];
+  const announced: AlertState[] = [];
+
+  for (const rule of rules) {
+    const key = ruleKey(rule);
+    const id = stateId(origin, destination, date, bundle, key);
+    const match = matches.find(candidate => candidate.rule === rule);
+    let state = await store.get(id);
+
+    // A state in another currency tells us nothing about the current price
+    if (state && state.price.currency !== current.currency) {
+      state = null;
+    }
+
+    if (state) {
+      if (current.amount < state.lowestPrice.amount) {
+        state.lowestPrice = current;
+      }
+      const recovered = current.amount > state.lowestPrice.amount && current.amount - state.lowestPrice.amount >= rearmAmount;
+      const droppedFurther = rearmAmount > 0 && state.price.amount - current.amount >= rearmAmount;
+      if (recovered || droppedFurther) {
+        state.rearmed = true;
+      }
+    }
+
+    if (match) {
+      const cooledDown = !state || now.getTime() - new Date(state.firedAt).getTime() >= settings.cooldownHours * HOUR_MS;
+      if (!state || (state.rearmed && cooledDown)) {
+        announce.push(match);
+        announced.push({
+          origin,
+          destination,
+          date,
+          ...(bundle ? { bundle } : {}),
+          rule: key,
+          firedAt: now.toISOString(),
+          price: current,
+          lowestPrice: current,
+          rearmed: false
+        });
+      } else {
+        console.log(`Suppressing repeat alert for ${date} (${origin} -> ${destination}${bundle ? `, ${bundle}` : ''}): ${match.reason}`);
+      }
+    }
+
+    if (state) {
+      await store.put(state);
+    }
+  }
+
+  return {
+    matches: announce,
+    async confirm() {
+      for (const state of announced) {
+        await store.put(state);
+      }
+    }
+  };
+}
+
+/**
+ * Alerts that were announced and have not been rearmed by the price going back up,
+ * for flight dates that are still ahead
+ */
+export async function listActiveAlerts(store: AlertStateStore, today: string = new Date().toISOString().substring(0, 10)): Promise<AlertState[]> {
+  const states = await store.list();
+  return states
+    .filter(state => !state.rearmed && state.date >= today)
+    .sort((a, b) => a.date.localeCompare(b.date) || a.origin.localeCompare(b.origin));
+}
+
+export function createMemoryAlertStateStore(): AlertStateStore {
+  const states = new Map<string, AlertState>();
+  return createMapStore(() => states, () => undefined);
+}
+
+/**
+ * Keep alert state in a local JSON file so it survives between runs
+ */
+export function createJsonFileAlertStateStore(path: string): AlertStateStore {
+  let states: Map<string, AlertState> | null = null;
+
+  const load = (): Map<string, AlertState> => {
+    if (!states) {
+      const rows: AlertState[] = existsSync(path) ? JSON.parse(readFileSync(path, 'utf8')) : [];
+      states = new Map(rows.map(row => [stateId(row.origin, row.destination, row.date, row.bundle, row.rule), row]));
+    }
+    return states;
+  };
+
+  return createMapStore(load, () => writeFileSync(path, JSON.stringify(Array.from(load().values()), null, 2)));
+}
+
+function createMapStore(states: () => Map<string, AlertState>, save: () => void): AlertStateStore {
+  return {
+    async get(id) {
+      const state = states().get(id);
+      // Hand out copies so callers only change the store through put
+      return state ? { ...state } : null;
+    },
+
+    async put(state) {
+      states().set(stateId(state.origin, state.destination, state.date, state.bundle, state.rule), state);
+      save();
+    },
+
+    async list() {
+      return Array.from(states().values());
+    }
+  };
+}
@@ -0,0 +1,150 @@
+import { existsSync, mkdirSync, readdirSync, rmSync, writeFileSync } from 'fs';
+import { join } from 'path';
+import { Page } from 'puppeteer';
+import { ScrapeError } from './scrape-errors';
+
+export interface ConsoleRecorder {
+  // Messages logged by the page so far, e.g. '[error] Failed to load resource'
+  messages(): string[];
+  stop(): void;
+}
+
+// What a failed or degraded search was asked to do
+export interface SearchRequest {
+  url: string;
+  params: { [name: string]: unknown };
+}
+
+export interface ArtifactRun {
+  /**
+   * Save a bundle for a search that failed or only partly worked: full-page screenshot,
+   * page HTML, console messages, the request and the error or reasons.
+   * Never throws; parts that cannot be captured (e.g. from a crashed page) are skipped.
+   * @param problem The error, or the reasons the result is degraded
+   * @returns Directory of the bundle, or null if it could not be created
+   */
+  saveBundle(page: Page, request: SearchRequest, consoleLog: ConsoleRecorder, problem: unknown): Promise<string | null>;
+}
+
+const DEFAULT_ARTIFACTS_DIR = 'artifacts';
+const DEFAULT_KEEP_RUNS = 20;
+
+/**
+ * Start collecting the console messages and page errors of a page
+ */
+export function recordConsole(page: Page): ConsoleRecorder {
+  const messages: string[] = [];
+  const onConsole = (message: { type(): string; text(): string }) => messages.push(`[${message.type()}] ${message.text()}`);
+  const onPageError = (error: unknown) => messages.push(`[pageerror] ${error instanceof Error ? error.message : error}`);
+
+  page.on('console', onConsole);
+  page.on('pageerror', onPageError);
+
+  return {
+    messages: () => [...messages],
+    stop: () => {
+      page.off('console', onConsole);
+      page.off('pageerror', onPageError);
+    }
+  };
+}
+
+/**
+ * Start a run whose failure bundles go into one timestamped directory under ARTIFACTS_DIR (default artifacts).
+ * The directory is only created once there is something to save; at that point the oldest
+ * run directories are removed so that at most ARTIFACTS_KEEP_RUNS (default 20) are kept.
+ * @param label Short name of the run, added to the directory name, e.g. 'search' or a watch name
+ */
+export function startArtifactRun(label: string, env: NodeJS.ProcessEnv = process.env): ArtifactRun {
+  const baseDir = env.ARTIFACTS_DIR || DEFAULT_ARTIFACTS_DIR;
+  const keepRuns = Math.max(1, parseInt(env.ARTIFACTS_KEEP_RUNS || '', 10) || DEFAULT_KEEP_RUNS);
+  const runDir = join(baseDir, `${timestamp(new Date())}_${slug(label)}`);
+  let created = false;
+
+  const ensureRunDir = () => {
+    if (!created) {
+      mkdirSync(runDir, { recursive: true });
+      created = true;
+      pruneRuns(baseDir, keepRuns);
+    }
+  };
+
+  return {
+    async saveBundle(page, request, consoleLog, problem) {
+      const params = request.params;
+      const name = [timestamp(new Date()), params.origin, params.destination, params.date, problemKind(problem)]
+        .filter(Boolean).map(part => slug(String(part))).join('_');
+
+      let dir: string;
+      try {
+        ensureRunDir();
+        dir = join(runDir, name);
+        mkdirSync(dir, { recursive: true });
+      } catch (error) {
+        console.error('Could not create failure bundle directory:', error);
+        return null;
+      }
+
+      const save = async (file: string, content: () => Promise<string | Uint8Array | void>) => {
+        try {
+          const data = await content();
+          if (data !== undefined) {
+            writeFileSync(join(dir, file), data);
+          }
+        } catch (error) {
+          console.log(`Could not save ${file} for the failure bundle:`, error instanceof Error ? error.message : error);
+        }
+      };
+
+      await save('request.json', async () => JSON.stringify({ ...request, pageUrl: page.url(), time: new Date().toISOString() }, null, 2));
+      await save('error.json', async () => JSON.stringify(describeProblem(problem), null, 2));
+      await save('console.log', async () => consoleLog.messages().join('\n') + '\n');
+      await save('page.html', () => page.content());
+      await save('screenshot.png', () => page.screenshot({ fullPage: true }));
+
+      console.log(`Saved failure bundle to ${dir}`);
+      return dir;
+    }
+  };
+}
+
+// Run directories start with their timestamp, so sorting by name sorts them by age
+function pruneRuns(baseDir: string, keepRuns: number): void {
+  if (!existsSync(baseDir)) {
+    return;
+  }
+  const runs = readdirSync(baseDir, { withFileTypes: true })
+    .filter(entry => entry.isDirectory())
+    .map(entry => entry.name)
+    .sort();
+
+  for (const run of runs.slice(0, Math.max(0, runs.length - keepRuns))) {
+    try {
+      rmSync(join(baseDir, run), { recursive: true, force: true });
+      console.log(`Removed old failure bundles in ${run}`);
+    } catch (error) {
+      console.error(`Could not remove old failure bundles in ${run}:`, error);
+    }
+  }
+}
+
+const problemKind = (problem: unknown): string =>
+  problem instanceof ScrapeError ? problem.code : problem instanceof Error ? 'error' : 'degraded';
+
+const describeProblem = (problem: unknown) => {
+  if (problem instanceof Error) {
+    return {
+      name: problem.name,
+      code: problem instanceof ScrapeError ? problem.code : undefined,
+      transient: problem instanceof ScrapeError ? problem.transient : undefined,
+      message: problem.message,
+      stack: problem.stack
+    };
+  }
+  return { degraded: problem };
+};
+
+// '2026-10-19T18-03-50-042Z', safe in file names on every platform
+const timestamp = (date: Date): string => date.toISOString().replace(/[:.]/g, '-');
+
+const slug = (text: string): string => text.replace(/[^A-Za-z0-9-]+/g, '-').replace(/^-+|-+$/g, '').substring(0, 60) || 'run';
@@ -0,0 +1,173 @@
+import puppeteer, { Browser, LaunchOptions, Page } from 'puppeteer';
+
+export interface BrowserPoolOptions {
+  // Pages open at the same time across all browsers
+  concurrency: number;
+  maxPagesPerBrowser: number;
+  // Restart a browser after it has served this many pages, to keep memory leaks in check
+  maxUsesPerBrowser: number;
+  launchOptions: LaunchOptions;
+}
+
+export interface BrowserPool {
+  /**
+   * Run a task on a fresh page, waiting for a free slot first.
+   * The page is closed afterwards whether the task succeeds or not.
+   */
+  withPage<T>(task: (page: Page) => Promise<T>): Promise<T>;
+  close(): Promise<void>;
+}
+
+interface PooledBrowser {
+  // Reserved before the launch finishes so concurrent callers share it
+  browser: Promise<Browser>;
+  activePages: number;
+  uses: number;
+  retiring: boolean;
+}
+
+// How every browser is launched, also by the selector health check
+export const DEFAULT_LAUNCH_OPTIONS: LaunchOptions = {
+  // Set HEADLESS=true to run without a display, e.g. in a container
+  headless: process.env.HEADLESS === 'true',
+  defaultViewport: null,
+  args: ['--start-maximized', '--disable-notifications', '--no-sandbox']
+};
+
+const DEFAULT_OPTIONS: BrowserPoolOptions = {
+  concurrency: 2,
+  maxPagesPerBrowser: 2,
+  maxUsesPerBrowser: 20,
+  launchOptions: DEFAULT_LAUNCH_OPTIONS
+};
+
+/**
+ * Create a pool of browsers shared across searches.
+ * Browsers are launched on demand, restarted after maxUsesPerBrowser pages
+ * and dropped from the pool if they crash.
+ * @param options Pool limits; anything left out uses the defaults
+ */
+export function createBrowserPool(options: Partial<BrowserPoolOptions> = {}): BrowserPool {
+  const settings: BrowserPoolOptions = { ...DEFAULT_OPTIONS, ...options };
+  const browsers: PooledBrowser[] = [];
+  const waiting: (() => void)[] = [];
+  let activeTasks = 0;
+  let closed = false;
+
+  const acquireSlot = async () => {
+    while (activeTasks >= settings.concurrency) {
+      await new Promise<void>(resolve => waiting.push(resolve));
+    }
+    activeTasks++;
+  };
+
+  const releaseSlot = () => {
+    activeTasks--;
+    const next = waiting.shift();
+    if (next) next();
+  };
+
+  const remove = (pooled: PooledBrowser) => {
+    const index = browsers.indexOf(pooled);
+    if (index !== -1) browsers.splice(index, 1);
+  };
+
+  const launch = (): PooledBrowser => {
+    const pooled: PooledBrowser = {
+      browser: puppeteer.launch(settings.launchOptions),
+      activePages: 0,
+      uses: 0,
+      retiring: false
+    };
+    browsers.push(pooled);
+
+    pooled.browser.then(
+      browser => {
+        browser.on('disconnected', () => {
+          if (!pooled.retiring) {
+            console.log('Browser disconnected, removing it from the pool');
+          }
+          pooled.retiring = true;
+          remove(pooled);
+        });
+      },
+      () => remove(pooled)
+    );
+
+    return pooled;
+  };
+
+  const checkout = (): PooledBrowser => {
+    const pooled = browsers.find(candidate =>
+      !candidate.retiring && candidate.activePages < settings.maxPagesPerBrowser
+    ) || launch();
+
+    pooled.activePages++;
+    pooled.uses++;
+    if (pooled.uses >= settings.maxUsesPerBrowser) {
+      // Finish the pages already handed out, then restart
+      pooled.retiring = true;
+    }
+    return pooled;
+  };
+
+  const checkin = async (pooled: PooledBrowser) => {
+    pooled.activePages--;
+    if (pooled.retiring && pooled.activePages === 0) {
+      remove(pooled);
+      try {
+        const browser = await pooled.browser;
+        if (browser.connected) {
+          await browser.close();
+          console.log('Browser closed.');
+        }
+      } catch (error) {
+        console.log('Could not close retired browser:', error);
+      }
+    }
+  };
+
+  return {
+    async withPage<T>(task: (page: Page) => Promise<T>): Promise<T> {
+      if (closed) {
+        throw new Error('Browser pool is closed');
+      }
+
+      await acquireSlot();
+      if (closed) {
+        // Closed while waiting for a slot; do not launch a new browser
+        releaseSlot();
+        throw new Error('Browser pool is closed');
+      }
+      const pooled = checkout();
+      try {
+        console.log('Opening browser page...');
+        const browser = await pooled.browser;
+        const page = await browser.newPage();
+        try {
+          return await task(page);
+        } finally {
+          await page.close().catch(() => undefined);
+        }
+      } finally {
+        await checkin(pooled);
+        releaseSlot();
+      }
+    },
+
+    async close() {
+      closed = true;
+      const remaining = browsers.splice(0, browsers.length);
+      for (const pooled of remaining) {
+        pooled.retiring = true;
+        try {
+          const browser = await pooled.browser;
+          await browser.close();
+        } catch (error) {
+          console.log('Could not close browser:', error);
+        }
+      }
+      console.log('Browser pool closed.');
+    }
+  };
+}
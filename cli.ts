@@ -0,0 +1,304 @@
+import { parseArgs } from 'util';
+import { checkAirportPairs, checkAirports, expandAirports } from './airport-groups';
+import { lookupAirports } from './airports';
+import { daysBetween, isIsoDate, toIsoDate } from './dates';
+import { bundleName, checkBundle } from './fare-bundles';
+import { OUTPUT_FORMATS, OutputFormat } from './output';
+import { ExtractionMode } from './types';
+import { checkIataCode, checkPassengers } from './validation';
+import { MAX_DATES_PER_WATCH, PassengerMix } from './watchlist';
+
+export interface TripOptions {
+  // As given, e.g. 'LON' or 'STN,BGY'; a single airport code for analyze-page
+  origin: string;
+  destination: string;
+  // Airports to search, city groups expanded
+  origins: string[];
+  destinations: string[];
+  date: string;
+  passengers: PassengerMix;
+  mode: ExtractionMode;
+  // Codes of airports the catalog does not have were accepted, so their routes are not checked
+  anyAirport: boolean;
+}
+
+export type CliCommand =
+  | { command: 'search'; trip: TripOptions; dateTo?: string; returnDate?: string; bundle?: string; format: OutputFormat }
+  | { command: 'watch'; watchlist: string; once: boolean; mode: ExtractionMode }
+  | { command: 'history'; origin: string; destination: string; date: string; bundle?: string }
+  | { command: 'alerts' }
+  // Checks the live page of the trip, or the saved snapshot when there is one
+  | { command: 'analyze-page'; trip?: TripOptions; snapshot?: string; selectorsFile?: string }
+  | { command: 'help' };
+
+// Thrown for bad command-line input; main prints the message with the usage instead of a stack trace
+export class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+export const USAGE = `Usage: node dist/index.js <command> [options]
+
+Commands:
+  search          Search a date, a date range or a return trip, store the prices and send alerts
+  watch           Run the watches of a watchlist file on their schedules
+  history         Show the stored prices for a route and date
+  alerts          List alerts that were sent and whose price has not gone back up since
+  analyze-page    Check every selector against the flight selection page or a saved snapshot of it
+
+Trip options (search, and analyze-page without --snapshot):
+  --origin <airport>       Departure airport as an IATA code or name, e.g. BUD or Budapest (required).
+                           Search also takes a comma-separated list, cities and city groups, e.g.
+                           London or LON (STN, LTN, LGW), searches every pair of airports Ryanair
+                           flies between and ranks the results together. Only airports in the bundled
+                           catalog are accepted, so their routes can be checked
+  --destination <airport>  Arrival airport, e.g. MAN or Manchester, or airports as for --origin (required)
+  --any-airport            Also accept codes of airports the catalog does not have, and search their
+                           routes without checking them
+  --date <YYYY-MM-DD>      Outbound date, today or later (required)
+  --adults <n>             Adults, 16 or over (default 1)
+  --teens <n>              Teens, 12-15 (default 0)
+  --children <n>           Children, 2-11 (default 0)
+  --infants <n>            Infants under 2, at most one per adult (default 0)
+  --mode network|dom       Read prices from the site's API or the page (default EXTRACTION_MODE or network)
+
+Search options:
+  --date-to <YYYY-MM-DD>   Sweep every date from --date up to this one
+  --return <YYYY-MM-DD>    Return date, for a return trip
+  --bundle <name>          Price, store and alert on this fare bundle instead of the headline fare:
+                           Basic, Regular, Plus or Flexi Plus. Regular is only shown on the page, which is then
+                           read in either mode
+  --format <format>        How results are written to stdout: table, json, ndjson or csv (default table);
+                           progress logs always go to stderr
+
+Watch options:
+  --watchlist <file>       Watchlist file (default watchlist.json)
+  --once                   Run every watch once and exit instead of following the schedules
+
+Analyze-page options:
+  --snapshot <file>        Check a saved HTML page, e.g. the page.html of a failure bundle, instead of the live site
+  --selectors <file>       Selectors file to check (default SELECTORS_FILE or selectors.json)
+
+History options:
+  --origin, --destination (one airport each) and --date as above; past dates are allowed
+  --bundle <name>          Show the stored prices of this fare bundle instead of the headline fare
+
+Exit status:
+  0 success, 1 unexpected error, 2 bad command line, 3 required selectors matched nothing (analyze-page),
+  10 page load timed out, 11 cookie banner never appeared, 12 cookie banner could not be accepted,
+  13 prices never appeared, 14 blocked by bot protection, 15 route not operated
+
+Examples:
+  node dist/index.js search --origin BUD --destination MAN --date 2026-08-22 --adults 2 --teens 2
+  node dist/index.js search --origin BUD --destination STN --date 2026-09-01 --date-to 2026-09-30 --format csv > prices.csv
+  node dist/index.js search --origin BUD --destination MAN --date 2026-08-22 --bundle "Flexi Plus"
+  node dist/index.js search --origin BUD --destination LON --date 2026-08-22
+  node dist/index.js watch --watchlist watchlist.json
+  node dist/index.js analyze-page --snapshot artifacts/<run>/<bundle>/page.html`;
+
+type OptionSpec = { [name: string]: { type: 'string' | 'boolean' } };
+
+const ROUTE_OPTIONS: OptionSpec = {
+  origin: { type: 'string' },
+  destination: { type: 'string' },
+  date: { type: 'string' }
+};
+
+const TRIP_OPTIONS: OptionSpec = {
+  ...ROUTE_OPTIONS,
+  adults: { type: 'string' },
+  teens: { type: 'string' },
+  children: { type: 'string' },
+  infants: { type: 'string' },
+  mode: { type: 'string' },
+  'any-airport': { type: 'boolean' }
+};
+
+const COMMAND_OPTIONS: { [command: string]: OptionSpec } = {
+  search: { ...TRIP_OPTIONS, 'date-to': { type: 'string' }, return: { type: 'string' }, bundle: { type: 'string' }, format: { type: 'string' } },
+  watch: { watchlist: { type: 'string' }, once: { type: 'boolean' }, mode: { type: 'string' } },
+  history: { ...ROUTE_OPTIONS, bundle: { type: 'string' } },
+  alerts: {},
+  'analyze-page': { ...TRIP_OPTIONS, snapshot: { type: 'string' }, selectors: { type: 'string' } }
+};
+
+type Values = { [name: string]: string | boolean | undefined };
+
+/**
+ * Parse and validate the command line
+ * @param args Arguments after the script name, e.g. ['search', '--origin', 'BUD', ...]
+ * @param today Today's date in 'YYYY-MM-DD' format, the earliest date a search may ask for
+ * @throws UsageError naming the first problem found
+ */
+export function parseCli(
+  args: string[],
+  today: string = toIsoDate(new Date()),
+  env: NodeJS.ProcessEnv = process.env
+): CliCommand {
+  const [command, ...rest] = args;
+  if (!command || command === 'help' || command === '--help' || command === '-h') {
+    return { command: 'help' };
+  }
+
+  const spec = COMMAND_OPTIONS[command];
+  if (!spec) {
+    throw new UsageError(`Unknown command "${command}"`);
+  }
+
+  let values: Values;
+  try {
+    const parsed = parseArgs({ args: rest, options: spec, strict: true, allowPositionals: false });
+    values = parsed.values as Values;
+  } catch (error) {
+    throw new UsageError(`${command}: ${error instanceof Error ? error.message : error}`);
+  }
+  const fail = (message: string): never => {
+    throw new UsageError(`${command}: ${message}`);
+  };
+
+  switch (command) {
+    case 'search': {
+      const trip = readTrip(values, today, env, fail);
+      const dateTo = readDate(values, 'date-to', fail);
+      const returnDate = readDate(values, 'return', fail);
+      if (dateTo) {
+        if (dateTo < trip.date) fail(`--date-to ${dateTo} is before --date ${trip.date}`);
+        if (daysBetween(trip.date, dateTo) >= MAX_DATES_PER_WATCH) fail(`--date to --date-to covers more than ${MAX_DATES_PER_WATCH} days`);
+        // A sweep only follows the outbound carousel
+        if (returnDate) fail('--return cannot be combined with --date-to');
+      }
+      if (returnDate && returnDate < trip.date) {
+        fail(`--return ${returnDate} is before --date ${trip.date}`);
+      }
+      const format = (values.format as string | undefined) || 'table';
+      if (!OUTPUT_FORMATS.includes(format as OutputFormat)) {
+        fail(`--format "${format}" must be one of ${OUTPUT_FORMATS.join(', ')}`);
+      }
+      return { command, trip, dateTo, returnDate, bundle: readBundle(values, fail), format: format as OutputFormat };
+    }
+
+    case 'watch':
+      return {
+        command,
+        watchlist: (values.watchlist as string | undefined) || 'watchlist.json',
+        once: !!values.once,
+        mode: readMode(values, env, fail)
+      };
+
+    case 'history':
+      return {
+        command,
+        origin: readAirport(values, 'origin', fail),
+        destination: readAirport(values, 'destination', fail),
+        date: readDate(values, 'date', fail) || fail('--date is required'),
+        bundle: readBundle(values, fail)
+      };
+
+    case 'analyze-page': {
+      const snapshot = values.snapshot as string | undefined;
+      const selectorsFile = values.selectors as string | undefined;
+      if (!snapshot) {
+        const trip = readTrip(values, today, env, fail);
+        if (trip.origins.length > 1 || trip.destinations.length > 1) {
+          fail('--origin and --destination must be single airports, the page shows one route');
+        }
+        return { command, trip, selectorsFile };
+      }
+      const tripOption = Object.keys(TRIP_OPTIONS).find(name => values[name] !== undefined);
+      if (tripOption) {
+        fail(`--${tripOption} cannot be combined with --snapshot`);
+      }
+      return { command, snapshot, selectorsFile };
+    }
+
+    default:
+      return { command: 'alerts' };
+  }
+}
+
+function readTrip(values: Values, today: string, env: NodeJS.ProcessEnv, fail: (message: string) => never): TripOptions {
+  const anyAirport = !!values['any-airport'];
+  const origin = readAirports(values, 'origin', anyAirport, fail);
+  const destination = readAirports(values, 'destination', anyAirport, fail);
+  const origins = expandAirports(origin);
+  const destinations = expandAirports(destination);
+  const routeError = checkAirportPairs(origins, destinations);
+  if (routeError) {
+    fail(routeError);
+  }
+
+  const date = readDate(values, 'date', fail) || fail('--date is required');
+  if (date < today) {
+    fail(`--date ${date} is in the past (today is ${today})`);
+  }
+
+  const passengers: PassengerMix = {
+    adults: readCount(values, 'adults', 1, fail),
+    teens: readCount(values, 'teens', 0, fail),
+    children: readCount(values, 'children', 0, fail),
+    infants: readCount(values, 'infants', 0, fail)
+  };
+  const passengerError = checkPassengers(passengers);
+  if (passengerError) {
+    fail(passengerError);
+  }
+
+  return { origin, destination, origins, destinations, date, passengers, mode: readMode(values, env, fail), anyAirport };
+}
+
+function readAirport(values: Values, name: string, fail: (message: string) => never): string {
+  const value = values[name] as string | undefined;
+  if (!value) {
+    return fail(`--${name} is required`);
+  }
+  const airports = lookupAirports(value);
+  if (airports.length > 1) {
+    fail(`--${name} "${value}" has ${airports.length} airports (${airports.map(airport => airport.iata).join(', ')}), pick one`);
+  }
+  // Prices stored for airports no longer in the catalog can still be looked up by code
+  const code = airports.length === 1 ? airports[0].iata : value.toUpperCase();
+  const error = checkIataCode(code, `--${name}`);
+  return error ? fail(error) : code;
+}
+
+function readAirports(values: Values, name: string, anyAirport: boolean, fail: (message: string) => never): string {
+  const value = values[name] as string | undefined;
+  if (!value) {
+    return fail(`--${name} is required`);
+  }
+  const error = checkAirports(value, `--${name}`, anyAirport);
+  return error ? fail(error) : value.trim();
+}
+
+function readDate(values: Values, name: string, fail: (message: string) => never): string | undefined {
+  const value = values[name] as string | undefined;
+  if (value !== undefined && !isIsoDate(value)) {
+    fail(`--${name} "${value}" must be a valid date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+function readBundle(values: Values, fail: (message: string) => never): string | undefined {
+  const value = values.bundle as string | undefined;
+  if (value === undefined) {
+    return undefined;
+  }
+  const error = checkBundle(value, '--bundle');
+  return error ? fail(error) : bundleName(value)!;
+}
+
+function readCount(values: Values, name: string, fallback: number, fail: (message: string) => never): number {
+  const value = values[name] as string | undefined;
+  if (value === undefined) {
+    return fallback;
+  }
+  return /^\d+$/.test(value) ? parseInt(value, 10) : fail(`--${name} "${value}" must be a whole number`);
+}
+
+function readMode(values: Values, env: NodeJS.ProcessEnv, fail: (message: string) => never): ExtractionMode {
+  const flag = values.mode as string | undefined;
+  const mode = flag || env.EXTRACTION_MODE || 'network';
+  return mode === 'network' || mode === 'dom' ? mode : fail(`${flag ? '--mode' : 'EXTRACTION_MODE'} "${mode}" must be network or dom`);
+}
@@ -0,0 +1,145 @@
+// A parsed five-field cron expression: minute hour day-of-month month day-of-week
+export interface CronSchedule {
+  expression: string;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 is Sunday
+  daysOfWeek: Set<number>;
+  // Whether the day fields were restricted, which decides how they combine
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+const ALIASES: { [alias: string]: string } = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *'
+};
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12 },
+  // 7 is accepted as Sunday too
+  { name: 'day of week', min: 0, max: 7 }
+];
+
+// How far ahead to look before deciding an expression never matches, e.g. '0 0 31 2 *'
+const SEARCH_YEARS = 5;
+
+/**
+ * Parse a cron expression such as '30 7 * * 1-5' (07:30 on weekdays).
+ * Supports *, lists, ranges and steps, plus @hourly, @daily, @weekly and @monthly.
+ * Times are in the local time zone of the process (set TZ to change it).
+ * @throws Error describing the first invalid field
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = (ALIASES[expression.trim()] || expression).trim().split(/\s+/);
+  if (fields.length !== 5) {
+    throw new Error(`Cron expression "${expression}" must have 5 fields (minute hour day-of-month month day-of-week)`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseField(field, FIELDS[index], expression));
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  const schedule: CronSchedule = {
+    expression,
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+
+  // Fails for dates that do not exist, such as 31 February
+  nextCronTime(schedule, new Date());
+  return schedule;
+}
+
+/**
+ * First time strictly after `after` that matches the schedule, to the minute
+ * @throws Error if nothing matches within the next few years
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const time = new Date(after.getTime());
+  time.setSeconds(0, 0);
+  time.setMinutes(time.getMinutes() + 1);
+  const limit = new Date(after.getTime());
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  while (time < limit) {
+    if (!schedule.months.has(time.getMonth() + 1)) {
+      time.setMonth(time.getMonth() + 1, 1);
+      time.setHours(0, 0, 0, 0);
+    } else if (!dayMatches(schedule, time)) {
+      time.setDate(time.getDate() + 1);
+      time.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(time.getHours())) {
+      time.setHours(time.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(time.getMinutes())) {
+      time.setMinutes(time.getMinutes() + 1, 0, 0);
+    } else {
+      return time;
+    }
+  }
+
+  throw new Error(`Cron expression "${schedule.expression}" never matches`);
+}
+
+// As in cron, a day matches either field when both are restricted
+function dayMatches(schedule: CronSchedule, time: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(time.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(time.getDay());
+  if (!schedule.anyDayOfMonth && !schedule.anyDayOfWeek) {
+    return dayOfMonth || dayOfWeek;
+  }
+  return dayOfMonth && dayOfWeek;
+}
+
+function parseField(field: string, range: { name: string; min: number; max: number }, expression: string): Set<number> {
+  const values = new Set<number>();
+  const fail = (): never => {
+    throw new Error(`Cron expression "${expression}": invalid ${range.name} "${field}" (allowed ${range.min}-${range.max})`);
+  };
+  const toNumber = (text: string): number => {
+    const value = /^\d+$/.test(text) ? parseInt(text, 10) : NaN;
+    return value >= range.min && value <= range.max ? value : fail();
+  };
+
+  for (const part of field.split(',')) {
+    const [span, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : toNumber(stepText);
+    if (step < 1) fail();
+
+    let from: number;
+    let to: number;
+    if (span === '*') {
+      from = range.min;
+      to = range.max;
+    } else if (span.includes('-')) {
+      const [start, end] = span.split('-');
+      from = toNumber(start);
+      to = toNumber(end);
+      if (from > to) fail();
+    } else {
+      from = toNumber(span);
+      // '5/15' means every 15 starting at 5
+      to = stepText === undefined ? from : range.max;
+    }
+
+    for (let value = from; value <= to; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
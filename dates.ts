@@ -0,0 +1,58 @@
+export const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+export const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const parseIsoDate = (isoDate: string): Date => {
+  const [year, month, day] = isoDate.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day));
+};
+
+export const toIsoDate = (date: Date): string => date.toISOString().substring(0, 10);
+
+/**
+ * True for a 'YYYY-MM-DD' string naming a real calendar day (so not '2025-02-30')
+ */
+export const isIsoDate = (text: string): boolean =>
+  /^\d{4}-\d{2}-\d{2}$/.test(text) && toIsoDate(parseIsoDate(text)) === text;
+
+/**
+ * Add a number of days to a 'YYYY-MM-DD' date
+ */
+export const addDays = (isoDate: string, days: number): string =>
+  toIsoDate(new Date(parseIsoDate(isoDate).getTime() + days * DAY_MS));
+
+/**
+ * Number of days from one 'YYYY-MM-DD' date to another (negative if `to` is earlier)
+ */
+export const daysBetween = (from: string, to: string): number =>
+  Math.round((parseIsoDate(to).getTime() - parseIsoDate(from).getTime()) / DAY_MS);
+
+/**
+ * Work out the full date of a carousel item such as '22 Aug'.
+ * The carousel has no year, so the year is picked that puts the item closest to the requested date,
+ * which handles searches across New Year (e.g. '02 Jan' next to a requested 2025-12-30 is 2026-01-02).
+ * @param dateText Day and month as shown in the carousel, e.g. '22 Aug'
+ * @param requestedDate Date the search was made for in 'YYYY-MM-DD' format
+ * @param offsetFromSelected Position of the item relative to the selected one, used if the text cannot be read
+ * @returns Date in 'YYYY-MM-DD' format
+ */
+export function resolveCarouselDate(dateText: string, requestedDate: string, offsetFromSelected: number): string {
+  const [dayText, monthText] = dateText.trim().split(/\s+/);
+  const day = parseInt(dayText, 10);
+  const month = MONTHS.findIndex(name => monthText && monthText.toLowerCase().startsWith(name.toLowerCase()));
+
+  if (isNaN(day) || month === -1) {
+    // Carousel items are consecutive days around the selected one
+    return addDays(requestedDate, offsetFromSelected);
+  }
+
+  const requested = parseIsoDate(requestedDate);
+  const year = requested.getUTCFullYear();
+  const candidates = [year - 1, year, year + 1].map(candidate => new Date(Date.UTC(candidate, month, day)));
+  const closest = candidates.reduce((best, candidate) =>
+    Math.abs(candidate.getTime() - requested.getTime()) < Math.abs(best.getTime() - requested.getTime()) ? candidate : best
+  );
+
+  return toIsoDate(closest);
+}
@@ -0,0 +1,61 @@
+import { AlertEntry, formatDigest } from './alert-messages';
+import { Notifier, notifyAll } from './notifier';
+
+export interface AlertDigest {
+  /**
+   * @param onDelivered Called once the entry reached at least one of its channels, or at once
+   * when it has none, e.g. to record the alert as announced
+   */
+  add(notifiers: Notifier[], entry: AlertEntry, onDelivered?: () => Promise<void>): void;
+  /**
+   * Send one digest per channel with everything added during the run
+   * @returns Number of digests sent
+   */
+  send(): Promise<number>;
+}
+
+/**
+ * Collect the alerts of a run so each channel gets a single message at the end,
+ * instead of one message per date. Channels are told apart by notifier name,
+ * so two watches alerting the same address share one digest.
+ */
+export function createAlertDigest(): AlertDigest {
+  const byChannel = new Map<string, { notifier: Notifier; entries: AlertEntry[] }>();
+  let pending: { entry: AlertEntry; channels: number; onDelivered: () => Promise<void> }[] = [];
+
+  return {
+    add(notifiers, entry, onDelivered) {
+      if (onDelivered) {
+        pending.push({ entry, channels: notifiers.length, onDelivered });
+      }
+      for (const notifier of notifiers) {
+        const channel = byChannel.get(notifier.name) || { notifier, entries: [] };
+        channel.entries.push(entry);
+        byChannel.set(notifier.name, channel);
+      }
+    },
+
+    async send() {
+      const channels = Array.from(byChannel.values());
+      const waiting = pending;
+      byChannel.clear();
+      pending = [];
+
+      const delivered = new Set<AlertEntry>();
+      for (const { notifier, entries } of channels) {
+        console.log(`Sending digest of ${entries.length} alerts via ${notifier.name}`);
+        if (await notifyAll([notifier], formatDigest(entries)) > 0) {
+          entries.forEach(entry => delivered.add(entry));
+        }
+      }
+
+      // Entries no channel took are left unconfirmed, so they are announced again on the next run
+      for (const { entry, channels: entryChannels, onDelivered } of waiting) {
+        if (entryChannels === 0 || delivered.has(entry)) {
+          await onDelivered();
+        }
+      }
+      return channels.length;
+    }
+  };
+}
@@ -0,0 +1,149 @@
+import { airportCurrency, normalizeAirport } from './airports';
+import { resolveCarouselDate } from './dates';
+import { toFareBundle } from './fare-bundles';
+import { formatMoney, parseMoney } from './money';
+import { RecordSelectors, ScrapedRecord, SelectorRegistry } from './selectors';
+import { DatePrice, FlightData, JourneyPrices } from './types';
+
+/**
+ * Reads the records of one selector group from one leg of the page, e.g. with scrapeRecords
+ * on the live page, or extractRecords on a parsed HTML fixture
+ */
+export type RecordReader = (selectors: RecordSelectors) => Promise<ScrapedRecord[]>;
+
+/**
+ * Extract flights and date prices for one leg of the search.
+ * Flights come from the flight cards, else from the loose class-name matching, else from the
+ * time options, and as a last resort from the selected date's price ('Check website' entry).
+ * Flight cards that show their fare cards also get the bundles they are sold in.
+ * Airports shown on the page are read back into codes, falling back to the searched ones.
+ * @param read Reads records from this leg's journey container
+ * @param selectors Registry the records are read with
+ * @param origin Origin airport code of this leg
+ * @param destination Destination airport code of this leg
+ * @param date Date of this leg in 'YYYY-MM-DD' format
+ * @returns Flights and nearby date prices for this leg
+ */
+export async function extractJourney(
+  read: RecordReader,
+  selectors: SelectorRegistry,
+  origin: string,
+  destination: string,
+  date: string
+): Promise<JourneyPrices> {
+  // Fares are sold in the departure country's currency, which tells apart symbols such as 'kr'
+  const marketCurrency = airportCurrency(origin) || undefined;
+
+  // Extract date-based prices
+  console.log(`Extracting date prices with selectors version ${selectors.version}...`);
+  const dateItems = await read(selectors.dateItems);
+  const selectedIndex = dateItems.findIndex(item => 'selected' in item.matched);
+  const datePrices: DatePrice[] = dateItems.map(({ text, matched }, index) => {
+    // Combine day number and month for a readable date
+    const carouselDate = `${text.day || ''} ${text.month || ''}`;
+    return {
+      date: carouselDate,
+      isoDate: resolveCarouselDate(carouselDate, date, selectedIndex === -1 ? 0 : index - selectedIndex),
+      weekday: text.weekday || '',
+      // Price text is parsed into amount and currency outside the page
+      price: parseMoney(text.price || 'N/A', marketCurrency),
+      isSelected: 'selected' in matched,
+      matched
+    };
+  });
+
+  // Flight prices are sometimes shown without a symbol, so fall back to the carousel's currency
+  const pageCurrency = datePrices.find(item => item.price)?.price?.currency || marketCurrency;
+  
+  // Extract specific time options for the selected date
+  console.log('Extracting specific time options for the selected date...');
+  const timeOptions = await read(selectors.timeOptions);
+  
+  if (timeOptions.length > 0) {
+    console.log(`Found ${timeOptions.length} specific time options for the selected date`);
+    console.table(timeOptions.map(option => option.text));
+  }
+  
+  // Extract available flights for the selected date
+  console.log('Extracting flight details...');
+  const toFlight = ({ text, matched, groups }: ScrapedRecord): FlightData => {
+    const flight: FlightData = {
+      flightNumber: text.flightNumber || 'N/A',
+      departureTime: text.departureTime || 'N/A',
+      arrivalTime: text.arrivalTime || 'N/A',
+      price: parseMoney(text.price || 'N/A', pageCurrency),
+      duration: text.duration || 'N/A',
+      fromAirport: normalizeAirport(text.fromAirport) || origin,
+      toAirport: normalizeAirport(text.toAirport) || destination,
+      matched
+    };
+    const bundles = ((groups && groups.bundles) || []).map(bundle => ({
+      ...toFareBundle(bundle.text.name, parseMoney(bundle.text.price || 'N/A', pageCurrency), bundle.text.includes),
+      matched: bundle.matched
+    }));
+    if (bundles.length > 0) {
+      flight.bundles = bundles;
+    }
+    return flight;
+  };
+  let flights: FlightData[] = (await read(selectors.flightCards)).map(toFlight);
+  
+  // Try a different approach if we still don't have flight info
+  if (flights.length === 0) {
+    console.log('Trying alternative selectors for flight information...');
+    
+    // Containers with both a time and a price are likely flight cards
+    const moreFlights = await read(selectors.looseFlights);
+    
+    if (moreFlights.length > 0) {
+      console.log(`Found ${moreFlights.length} flights using alternative selectors`);
+      flights.push(...moreFlights.map(toFlight));
+    }
+  }
+  
+  // If no specific flight cards were found, use the selected date price
+  if (flights.length === 0 && datePrices.length > 0) {
+    const selectedDatePrice = datePrices.find(item => item.isSelected);
+    if (selectedDatePrice) {
+      console.log(`No specific flights found, but selected date price is ${selectedDatePrice.price ? formatMoney(selectedDatePrice.price) : 'N/A'}`);
+      
+      // Try to find more details on the page
+      const [header] = await read(selectors.flightHeader);
+      
+      // Create a generic flight entry with the date price and any additional info
+      flights.push({
+        flightNumber: header.text.stops || 'Direct',
+        departureTime: 'Check website',
+        arrivalTime: 'Check website',
+        price: selectedDatePrice.price,
+        duration: 'Check website',
+        fromAirport: normalizeAirport(header.text.fromAirport) || origin,
+        toAirport: normalizeAirport(header.text.toAirport) || destination,
+        matched: selectedDatePrice.matched?.price ? { ...header.matched, price: selectedDatePrice.matched.price } : header.matched
+      });
+    }
+  }
+  
+  // Use time options if we found them but didn't get detailed flight info
+  if (flights.length === 1 && flights[0].departureTime === 'Check website' && timeOptions.length > 0) {
+    // We only have a generic flight entry, let's replace it with more specific ones
+    flights = timeOptions.map(({ text, matched }) => ({
+      flightNumber: text.flightNumber || 'Direct flight',
+      departureTime: text.departureTime || 'N/A',
+      arrivalTime: text.arrivalTime || 'N/A',
+      price: text.price ? parseMoney(text.price, pageCurrency) : null,
+      duration: 'See website',
+      fromAirport: origin,
+      toAirport: destination,
+      matched
+    }));
+  }
+
+  console.log(`Found ${flights.length} flights for ${origin} to ${destination} on ${date}`);
+  console.log(`Date prices for nearby dates: ${datePrices.length} found`);
+
+  return {
+    flights,
+    datePrices
+  };
+}
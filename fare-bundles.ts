@@ -0,0 +1,104 @@
+import { formatMoney, Money } from './money';
+import { BundleItem, DatePrice, FareBundle, FlightData, FlightPriceResult, JourneyPrices } from './types';
+
+// Ryanair's bundles, cheapest first, with what each comes with when the page does not say
+export const FARE_BUNDLES: { name: string; includes: BundleItem[] }[] = [
+  { name: 'Basic', includes: ['small-bag'] },
+  { name: 'Regular', includes: ['small-bag', 'cabin-bag', 'seat', 'priority'] },
+  { name: 'Plus', includes: ['small-bag', 'checked-bag', 'seat'] },
+  { name: 'Flexi Plus', includes: ['small-bag', 'cabin-bag', 'checked-bag', 'seat', 'priority', 'flexible'] }
+];
+
+// Other names the bundles have been sold under, by lower-case name without spaces
+const BUNDLE_ALIASES: { [alias: string]: string } = {
+  value: 'Basic',
+  'flexi+': 'Flexi Plus',
+  flexi: 'Flexi Plus'
+};
+
+// How the fare cards describe each item
+const ITEM_KEYWORDS: [BundleItem, RegExp][] = [
+  ['small-bag', /small bag|personal item|under.?seat/i],
+  ['cabin-bag', /10\s?kg|cabin bag|overhead/i],
+  ['checked-bag', /20\s?kg|check(ed)?[- ]?in bag|checked bag/i],
+  ['seat', /seat/i],
+  ['priority', /priority/i],
+  ['flexible', /flexib|free changes|ticket changes/i]
+];
+
+/**
+ * Standard name of a bundle, whatever case or older name it is given in
+ * @param text Name as typed or shown on the page, e.g. 'regular', 'Value' or 'FLEXI PLUS'
+ * @returns The name as in FARE_BUNDLES, or null if it is not a bundle Ryanair sells
+ */
+export function bundleName(text: string): string | null {
+  const key = text.trim().toLowerCase().replace(/\s+/g, '');
+  const bundle = FARE_BUNDLES.find(bundle => bundle.name.toLowerCase().replace(/\s+/g, '') === key);
+  return bundle ? bundle.name : BUNDLE_ALIASES[key] || null;
+}
+
+export function checkBundle(name: string, field: string): string | null {
+  return bundleName(name) ? null : `${field} "${name}" must be one of ${FARE_BUNDLES.map(bundle => bundle.name).join(', ')}`;
+}
+
+/**
+ * Build a bundle from what the page or API showed of it
+ * @param name Bundle name as shown; unknown names are kept as they are
+ * @param includesText Text listing what the bundle comes with; the standard contents are used when it names nothing
+ */
+export function toFareBundle(name: string, price: Money | null, includesText?: string): FareBundle {
+  const standardName = bundleName(name) || name.trim();
+  const listed = includesText ? ITEM_KEYWORDS.filter(([, pattern]) => pattern.test(includesText)).map(([item]) => item) : [];
+  const standard = FARE_BUNDLES.find(bundle => bundle.name === standardName);
+  return {
+    name: standardName,
+    price,
+    includes: listed.length > 0 ? listed : standard ? [...standard.includes] : []
+  };
+}
+
+/**
+ * Price of one bundle on a flight
+ * @returns null when the flight is not sold in the bundle, or the page showed no bundles
+ */
+export const bundlePrice = (flight: FlightData, bundle: string): Money | null =>
+  (flight.bundles || []).find(fareBundle => fareBundle.name === bundle)?.price || null;
+
+/**
+ * Price a search result in one bundle instead of the headline fares, so alerts, storage
+ * and the cheapest flight all compare what the traveller would actually pay.
+ * Each flight's price becomes its price in the bundle. The carousel only shows headline
+ * fares, so the only date price left is the searched date's, priced at its cheapest
+ * flight in the bundle; when no flight showed its bundles the date is left out entirely.
+ * @param bundle Standard bundle name, e.g. 'Regular'
+ */
+export function applyBundle(result: FlightPriceResult, bundle: string): FlightPriceResult {
+  return {
+    ...bundleJourney(result, bundle),
+    inbound: result.inbound ? bundleJourney(result.inbound, bundle) : undefined
+  };
+}
+
+function bundleJourney(journey: JourneyPrices, bundle: string): JourneyPrices {
+  const flights = journey.flights.map(flight => ({ ...flight, price: bundlePrice(flight, bundle) }));
+  const selected = journey.datePrices.find(datePrice => datePrice.isSelected);
+  if (!selected) {
+    return { flights, datePrices: [] };
+  }
+  if (!journey.flights.some(flight => flight.bundles && flight.bundles.length > 0)) {
+    console.log(`No fare bundles shown for ${selected.isoDate}, leaving it out of the ${bundle} prices`);
+    return { flights, datePrices: [] };
+  }
+
+  let cheapest: Money | null = null;
+  for (const flight of flights) {
+    if (flight.price && (!cheapest || (flight.price.currency === cheapest.currency && flight.price.amount < cheapest.amount))) {
+      cheapest = flight.price;
+    }
+  }
+  console.log(`Cheapest ${bundle} fare on ${selected.isoDate}: ${cheapest ? formatMoney(cheapest) : 'N/A'}`);
+
+  // The carousel selector did not find this price, so it is not tagged with one
+  const { matched, ...datePrice }: DatePrice = selected;
+  return { flights, datePrices: [{ ...datePrice, price: cheapest }] };
+}
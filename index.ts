@@ -1,14 +1,97 @@
-import puppeteer, { EvaluateFunc, Page } from 'puppeteer';
-import { createClient } from '@supabase/supabase-js';
-import { Resend } from 'resend';
+import { Console } from 'console';
+import { ElementHandle, HTTPResponse, Page, TimeoutError } from 'puppeteer';
+import { DatePrice, ExtractionMode, FlightData, FlightPriceResult, JourneyPrices } from './types';
+import { BrowserPool, createBrowserPool } from './browser-pool';
+import { addDays, daysBetween } from './dates';
+import { formatMoney, Money } from './money';
+import { AlertRule, DEFAULT_RULES, describeRule, evaluateRules } from './alert-rules';
+import {
+  AlertAnnouncement,
+  AlertStateSettings,
+  AlertStateStore,
+  createJsonFileAlertStateStore,
+  createMemoryAlertStateStore,
+  DEFAULT_ALERT_STATE_SETTINGS,
+  filterAnnouncedAlerts,
+  listActiveAlerts
+} from './alert-state';
+import { AlertEntry, formatAlert, formatFailure } from './alert-messages';
+import { AlertDigest, createAlertDigest } from './digest';
+import { channelsFromEnv, createNotifier, Notifier, notifyAll } from './notifier';
+import { createPriceStore, PriceStore, priceStoreConfigFromEnv, StoredPrice } from './price-store';
+import { loadWatchlist, PassengerMix, Watch } from './watchlist';
+import { startScheduler } from './scheduler';
+import { CliCommand, parseCli, UsageError, USAGE } from './cli';
+import { writeResult } from './output';
+import { DEFAULT_RETRY_POLICY, withRetry } from './retry';
+import { ArtifactRun, recordConsole, SearchRequest, startArtifactRun } from './artifacts';
+import {
+  checkForBotWall,
+  ConsentOutcome,
+  describeFailure,
+  diagnoseMissingPrices,
+  exitCodeFor,
+  NavigationTimeoutError,
+  RouteNotOperatedError,
+  ScrapeError
+} from './scrape-errors';
+import { anySelector, loadSelectorRegistry, queryChain, scrapeRecords, SelectorRegistry } from './selectors';
+import { extractJourney } from './extractors';
+import { airportPairs, rankPairResults, searchRoute } from './airport-groups';
+import { routeStatus } from './airports';
+import { applyBundle } from './fare-bundles';
+import { analyzeRyanairStructure } from './ryanair-structure-finder';
+import {
+  availabilityHasBundle,
+  AvailabilityResponse,
+  buildSelectUrl,
+  captureAvailability,
+  journeyFromAvailability,
+  ryanairBaseUrl
+} from './ryanair-api';
 
-console.log(process.env.RESEND_KEY);
+// Tables that are the answer to a command rather than progress
+const results = new Console(process.stdout);
 
-const resend = new Resend(process.env.RESEND_KEY);
+// Where searches keep their prices and the alerts they sent
+export interface Stores {
+  prices: PriceStore;
+  alertState: AlertStateStore;
+}
+
+// How a search is run; anything left out uses the default given for it
+export interface SearchOptions {
+  // Return date in 'YYYY-MM-DD' format; makes this a return search
+  returnDate?: string;
+  // Read prices from the availability API responses ('network', default) or only scrape the page ('dom')
+  mode?: ExtractionMode;
+  // Browser pool to run the search in; a browser is launched and closed just for this search when omitted
+  pool?: BrowserPool;
+  // Run that failure bundles are saved to; a run of its own is started when omitted
+  artifacts?: ArtifactRun;
+  // Site to search on, e.g. the local mock server; defaults to RYANAIR_BASE_URL or the real site
+  baseUrl?: string;
+  // Fare bundle to price, store and alert on instead of the headline fare
+  bundle?: string;
+  // Search airports the catalog does not have, without checking the route; they are refused otherwise
+  anyAirport?: boolean;
+}
+
+// Supabase by default; set PRICE_STORE=json or memory to run without a cloud project.
+// Opened only by the commands that use it, so help and usage errors work without credentials
+const openPriceStore = (): PriceStore => createPriceStore(priceStoreConfigFromEnv());
 
-const supabaseUrl = 'https://wtywaiqrvdnlhsfharbg.supabase.co';
-const supabaseKey = process.env.SUPABASE_KEY || '';
-const supabase = createClient(supabaseUrl, supabaseKey);
+// Remembers which alerts were already sent, so a wobbling price does not alert on every dip
+const openAlertStateStore = (): AlertStateStore => process.env.PRICE_STORE === 'memory'
+  ? createMemoryAlertStateStore()
+  : createJsonFileAlertStateStore(process.env.ALERT_STATE_PATH || 'alert-state.json');
+
+const openStores = (): Stores => ({ prices: openPriceStore(), alertState: openAlertStateStore() });
+
+// Where everything is found on the page; override entries in selectors.json when the markup changes.
+// Read on first use; main reads it before the commands that open the page, so a broken file fails them like any other error
+let selectorRegistry: SelectorRegistry | undefined;
+const pageSelectors = (): SelectorRegistry => selectorRegistry || (selectorRegistry = loadSelectorRegistry());
 
 // Add waitForTimeout to the Page interface
 declare module 'puppeteer' {
@@ -17,493 +100,892 @@ declare module 'puppeteer' {
   }
 }
 
-interface DatePrice {
-  date: string;
-  weekday: string;
-  price: string;
-  currency: string;
-  isSelected: boolean;
-}
-
-interface FlightData {
-  flightNumber: string;
-  departureTime: string;
-  arrivalTime: string;
-  price: string;
-  currency: string;
-  duration: string;
-  fromAirport: string;
-  toAirport: string;
-}
+// Exit status of analyze-page when a required selector matched nothing
+const SELECTORS_BROKEN_EXIT_CODE = 3;
 
-interface FlightPriceResult {
-  flights: FlightData[];
-  datePrices: DatePrice[];
-}
+const NAVIGATION_TIMEOUT_MS = 60000;
+// How long to wait for the carousel prices once the page has loaded
+const PRICES_TIMEOUT_MS = 30000;
 
 /**
  * Check flight prices from Ryanair website using a direct URL
  * @param origin Origin airport code (e.g., 'BUD' for Budapest)
  * @param destination Destination airport code (e.g., 'MAN' for Manchester)
  * @param date Date in 'YYYY-MM-DD' format
- * @param adults Number of adults (default: 1)
- * @param teens Number of teens (default: 0)
- * @param children Number of children (default: 0)
- * @param infants Number of infants (default: 0)
- * @returns Price information for the specified flight
+ * @param passengers Party to search for
+ * @param options Return date, extraction mode, browser pool, failure bundle run, site to search on, the fare bundle,
+ * which is read from the page rather than the availability API when the API does not price it, and whether
+ * airports the catalog does not have may be searched
+ * @returns Price information for the specified flight (and the inbound leg for return searches)
+ * @throws ScrapeError saying why the search failed, after retrying the transient failures;
+ * RouteNotOperatedError without opening a browser when the airport catalog has both airports but not the route,
+ * and an error without opening one when it lacks an airport and anyAirport is not set
  */
 async function checkRyanairPrice(
   origin: string,
   destination: string,
   date: string,
-  adults: number = 1,
-  teens: number = 0,
-  children: number = 0,
-  infants: number = 0
+  passengers: PassengerMix,
+  options: SearchOptions = {}
 ): Promise<FlightPriceResult> {
+  const { returnDate, mode = 'network', pool, artifacts = startArtifactRun('search'), baseUrl = ryanairBaseUrl(), bundle, anyAirport } = options;
+  const { adults, teens, children, infants } = passengers;
+  const route = routeStatus(origin, destination);
+  if (route === 'unlisted') {
+    throw new RouteNotOperatedError(origin, destination, 'not a route in the airport catalog');
+  }
+  if (route === 'unknown' && !anyAirport) {
+    throw new Error(`${origin} to ${destination} has an airport that is not in the airport catalog; set anyAirport to search it anyway`);
+  }
+  if (route === 'unknown') {
+    console.warn(`${origin} to ${destination} has an airport that is not in the airport catalog, searching it without checking the route`);
+  }
+
   // Construct the direct URL with all parameters
-  const directUrl = `https://www.ryanair.com/gb/en/trip/flights/select?adults=${adults}&teens=${teens}&children=${children}&infants=${infants}&dateOut=${date}&dateIn=&isConnectedFlight=false&discount=0&promoCode=&isReturn=false&originIata=${origin}&destinationIata=${destination}&tpAdults=${adults}&tpTeens=${teens}&tpChildren=${children}&tpInfants=${infants}&tpStartDate=${date}&tpEndDate=&tpDiscount=0&tpPromoCode=&tpOriginIata=${origin}&tpDestinationIata=${destination}`;
+  const directUrl = buildSelectUrl(origin, destination, date, passengers, returnDate, baseUrl);
+  const request: SearchRequest = {
+    url: directUrl,
+    params: { origin, destination, date, returnDate, adults, teens, children, infants, mode, bundle }
+  };
 
-  // Launch browser with some recommended options
-  const browser = await puppeteer.launch({
-    headless: false, // Set to true in production
-    defaultViewport: null,
-    args: ['--start-maximized', '--disable-notifications', '--no-sandbox']
-  });
+  // Searches share the caller's pool; a lone search gets a browser of its own
+  const browserPool = pool || createBrowserPool({ concurrency: 1 });
 
   try {
-    console.log('Opening browser...');
-    const page = await browser.newPage();
+    // Only failures that may go away by themselves are retried, on a fresh page each time
+    return await withRetry(
+      () => browserPool.withPage(page => searchPage(page, request, artifacts, origin, destination, date, returnDate, mode, bundle)),
+      error => error instanceof ScrapeError && error.transient,
+      DEFAULT_RETRY_POLICY,
+      `Search ${origin} to ${destination} on ${date}`
+    );
+  } catch (error) {
+    console.error('An error occurred:', describeFailure(error));
+    throw error;
+  } finally {
+    if (!pool) {
+      await browserPool.close();
+    }
+  }
+}
 
-    // Set timeout to 60 seconds for page navigations
-    page.setDefaultNavigationTimeout(60000);
-    
-    // Add user agent to avoid detection
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36');
+/**
+ * Load the flight selection page and read the prices of both legs from it.
+ * A failure bundle is saved when the search fails or only partly works.
+ * @throws ScrapeError saying why the page could not be read
+ */
+async function searchPage(
+  page: Page,
+  request: SearchRequest,
+  artifacts: ArtifactRun,
+  origin: string,
+  destination: string,
+  date: string,
+  returnDate: string | undefined,
+  mode: ExtractionMode,
+  bundle?: string
+): Promise<FlightPriceResult> {
+  const consoleLog = recordConsole(page);
+  try {
+    const { result, degraded } = await readSearchPage(page, request.url, origin, destination, date, returnDate, mode, bundle);
+    if (degraded.length > 0) {
+      console.log(`Search only partly worked: ${degraded.join('; ')}`);
+      await artifacts.saveBundle(page, request, consoleLog, degraded);
+    }
+    return result;
+  } catch (error) {
+    await artifacts.saveBundle(page, request, consoleLog, error);
+    throw error;
+  } finally {
+    consoleLog.stop();
+  }
+}
+
+/**
+ * Navigate to the flight selection page and read both legs
+ * @param bundle Fare bundle searched for; one the availability API does not price is read from the page in either mode
+ * @returns The result, plus the reasons it may be incomplete
+ */
+async function readSearchPage(
+  page: Page,
+  directUrl: string,
+  origin: string,
+  destination: string,
+  date: string,
+  returnDate: string | undefined,
+  mode: ExtractionMode,
+  bundle?: string
+): Promise<{ result: FlightPriceResult; degraded: string[] }> {
+  const degraded: string[] = [];
+
+  const useApi = mode === 'network' && (!bundle || availabilityHasBundle(bundle));
+  if (mode === 'network' && !useApi) {
+    console.log(`The availability API has no ${bundle} fares, reading them from the page`);
+  }
+  // Start listening before navigating so the initial availability request is captured
+  const availabilityCapture = useApi ? captureAvailability(page) : null;
+
+  // Add user agent to avoid detection
+  await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36');
 
-    // Navigate directly to the flight selection page
-    console.log(`Navigating to flight selection page for ${origin} to ${destination} on ${date}...`);
-    await page.goto(directUrl, { waitUntil: 'networkidle2', timeout: 0 });
+  // Navigate directly to the flight selection page
+  console.log(`Navigating to flight selection page for ${origin} to ${destination} on ${date}${returnDate ? `, returning ${returnDate}` : ''}...`);
+  let response: HTTPResponse | null;
+  try {
+    response = await page.goto(directUrl, { waitUntil: 'networkidle2', timeout: NAVIGATION_TIMEOUT_MS });
+  } catch (error) {
+    availabilityCapture?.stop();
+    throw error instanceof TimeoutError ? new NavigationTimeoutError(directUrl, NAVIGATION_TIMEOUT_MS) : error;
+  }
+  await checkForBotWall(page, response ? response.status() : undefined);
 
-    // Accept cookies if the dialog appears
+  // Accept cookies if the dialog appears
+  let consent: ConsentOutcome = 'not-shown';
+  try {
+    console.log('Checking for cookie consent dialog...');
+    const acceptButton = await page.waitForSelector(anySelector(pageSelectors().cookieAccept), { timeout: 5000 });
+    consent = 'blocked';
+    await acceptButton!.click();
+    consent = 'accepted';
+    console.log('Accepted cookies');
+  } catch (error) {
+    console.log(consent === 'blocked' ? 'Could not click the cookie accept button' : 'No cookie dialog found or already accepted');
+  }
+
+  // Use setTimeout instead of waitForTimeout (which might not exist in your Puppeteer version)
+  await new Promise(resolve => setTimeout(resolve, 3000));
+
+  const availability = availabilityCapture?.latest();
+  availabilityCapture?.stop();
+
+  // Wait for prices to load, unless we already have them from the API
+  if (!availability) {
+    if (useApi) {
+      console.log('No availability response captured, falling back to page scraping');
+      degraded.push('no availability API response, prices scraped from the page');
+    }
+    console.log('Waiting for prices to load...');
     try {
-      console.log('Checking for cookie consent dialog...');
-      const cookieSelector = 'button[data-ref="cookie.accept-all"]';
-      await page.waitForSelector(cookieSelector, { timeout: 5000 });
-      await page.click(cookieSelector);
-      console.log('Accepted cookies');
+      await page.waitForSelector(anySelector(pageSelectors().dateItems.fields.price.chain), { timeout: PRICES_TIMEOUT_MS });
     } catch (error) {
-      console.log('No cookie dialog found or already accepted');
+      if (!(error instanceof TimeoutError)) {
+        throw error;
+      }
+      await diagnoseMissingPrices(page, origin, destination, consent, pageSelectors().cookieAccept, PRICES_TIMEOUT_MS);
     }
+  }
 
-    // Use setTimeout instead of waitForTimeout (which might not exist in your Puppeteer version)
-    await new Promise(resolve => setTimeout(resolve, 3000));
+  const outbound = await readJourney(page, availability, 0, origin, destination, date);
+  if (outbound.flights.length === 0) {
+    degraded.push(`no flights found for ${origin} to ${destination}`);
+  }
 
-    // Wait for prices to load
-    console.log('Waiting for prices to load...');
-    await page.waitForSelector('.date-item__price', { timeout: 30000 });
-    
-    // Extract date-based prices
-    console.log('Extracting date prices...');
-    const datePrices: DatePrice[] = await page.evaluate(() => {
-      const dateItems = document.querySelectorAll('.date-item');
-      return Array.from(dateItems).map(item => {
-        const isSelected = item.classList.contains('date-item--selected');
-        
-        // Extract full date information - day number + month
-        const dayElement = item.querySelector('.date-item__day-of-month');
-        const day = dayElement ? dayElement.textContent?.trim() || '' : '';
-        
-        // Extract month
-        const monthElement = item.querySelector('.date-item__month');
-        const month = monthElement ? monthElement.textContent?.trim() || '' : '';
-        
-        // Combine for a readable date
-        const date = `${day} ${month}`;
-        
-        // Extract weekday
-        const weekdayElement = item.querySelector('.date-item__day-of-week');
-        const weekday = weekdayElement ? weekdayElement.textContent?.trim() || '' : '';
-        
-        // Extract price and currency
-        const priceElement = item.querySelector('.date-item__price');
-        const priceText = priceElement ? priceElement.textContent?.trim() || 'N/A' : 'N/A';
-        const priceMatch = priceText.match(/[\d,.]+/);
-        const currencyMatch = priceText.match(/[^\d\s,.]+/);
-        const price = priceMatch ? priceMatch[0] : 'N/A';
-        const currency = currencyMatch ? currencyMatch[0] : 'N/A';
-        
-        return {
-          date,
-          weekday,
-          price,
-          currency,
-          isSelected
-        };
-      });
-    });
-    
-    // Extract specific time options for the selected date
-    console.log('Extracting specific time options for the selected date...');
-    const timeOptions: any[] = await page.evaluate(() => {
-      // Try to find all time slots available for the selected date
-      const timeSlots = Array.from(document.querySelectorAll('.flight-header__min-price, .flight-info, .journey-info'));
-      return timeSlots.map(slot => {
-        // Try to get departure/arrival times
-        const times = slot.querySelectorAll('.flight-info__hour');
-        const departureTime = times[0]?.textContent?.trim() || 'N/A';
-        const arrivalTime = times[1]?.textContent?.trim() || 'N/A';
-
-        // Try to get departure/arrival cities
-        const cities = slot.querySelectorAll('.flight-info__city');
-        const fromCity = cities[0]?.textContent?.trim() || 'N/A';
-        const toCity = cities[1]?.textContent?.trim() || 'N/A';
-        
-        // Try to get price
-        const priceElement = slot.querySelector('.price, .amount, .fare');
-        const price = priceElement ? priceElement.textContent?.trim() : 'N/A';
-        
-        // Try to get flight number
-        const flightElement = slot.querySelector('.card-flight-num__content');
-        const flightNumber = flightElement ? flightElement.textContent?.trim() : 'N/A';
-        
-        return { departureTime, arrivalTime, price, flightNumber, fromCity, toCity };
-      });
-    });
-    
-    if (timeOptions && timeOptions.length > 0) {
-      console.log(`Found ${timeOptions.length} specific time options for the selected date`);
-      console.table(timeOptions);
+  let inbound: JourneyPrices | undefined;
+  if (returnDate) {
+    inbound = await readJourney(page, availability, 1, destination, origin, returnDate);
+    if (inbound.flights.length === 0) {
+      degraded.push(`no return flights found for ${destination} to ${origin}`);
     }
-    
-    // Extract available flights for the selected date
-    console.log('Extracting flight details...');
-    let flights: FlightData[] = await page.evaluate(((destination: string, origin: string) => {
-      // Try different selectors for flight cards
-      const flightCards = Array.from(document.querySelectorAll('[data-e2e="flight-card"], .flight-card, .card-flight'));
-      
-      return flightCards.map(card => {
-        // Extract times - try multiple selector patterns
-        const departureTime = card.querySelector('[data-ref="flight-segment.departure"] .flight-info__hour')?.textContent?.trim() || 'N/A';
-        const arrivalTime = card.querySelector('[data-ref="flight-segment.arrival"] .flight-info__hour')?.textContent?.trim() || 'N/A';
-        
-        // Extract flight number
-        const flightNumber = card.querySelector('.card-flight-num__content')?.textContent?.trim() || 'N/A';
-        
-        // Extract price
-        const priceElement = card.querySelector('[data-e2e="flight-card-price"], .flight-card__price, .card-flight__price, .price');
-        let price = 'N/A';
-        if (priceElement) {
-          price = priceElement.textContent?.trim() || 'N/A';
-        }
-        
-        // Extract currency and price separately
-        const currencyMatch = price.match(/[^\d\s,.]+/);
-        const currency = currencyMatch ? currencyMatch[0] : '';
-        
-        // Extract duration if available
-        const duration = card.querySelector('[data-ref="flight_duration"], .flight-card__duration, .card-flight__duration, .flight-time')?.textContent?.trim() || 'N/A';
-        
-        return {
-          flightNumber,
-          departureTime,
-          arrivalTime,
-          price,
-          currency,
-          duration,
-          fromAirport: origin,
-          toAirport: destination
-        };
-      });
-    }) as EvaluateFunc<[string, string]>, destination, origin) as FlightData[];
-    
-    // Try a different approach if we still don't have flight info
-    if (flights.length === 0) {
-      console.log('Trying alternative selectors for flight information...');
-      
-      // Take a screenshot of the current page state for debugging
-      await page.screenshot({ path: 'ryanair-debug.png' });
-      
-      // Try a more aggressive approach to find flight cards
-      const moreFlights: any[] = await page.evaluate(() => {
-        // Check for various flight containers
-        const allFlightContainers = Array.from(document.querySelectorAll('div[class*="flight"], div[class*="card"], tr[class*="flight"], div[class*="journey"]'));
-        console.log(`Found ${allFlightContainers.length} potential flight containers`);
-        
-        // Function to extract text from an element safely
-        const getText = (container: Element, selector: string) => {
-          const element = container.querySelector(selector);
-          return element ? element.textContent?.trim() : null;
-        };
-        
-        // Function to extract text using a list of possible selectors
-        const getTextMultiSelector = (container: Element, selectors: string[]) => {
-          for (const selector of selectors) {
-            const text = getText(container, selector);
-            if (text) return text;
-          }
-          return 'N/A';
-        };
-        
-        return allFlightContainers.map(container => {
-          // Try to identify if this is a flight card by looking for time, price, or flight number
-          const timeSelectors = ['[class*="time"]', '[class*="hour"]', 'strong', '.bold'];
-          const priceSelectors = ['[class*="price"]', '[class*="amount"]', '[class*="fare"]'];
-          const flightNumberSelectors = ['[class*="flight-number"]', '[class*="number"]', '[class*="code"]'];
-          
-          const hasTime = container.querySelector(timeSelectors.join(','));
-          const hasPrice = container.querySelector(priceSelectors.join(','));
-          
-          // If it has both time and price elements, it's likely a flight card
-          if (hasTime && hasPrice) {
-            // Extract departure and arrival times
-            const times = Array.from(container.querySelectorAll(timeSelectors.join(',')));
-            const departureTime = times[0]?.textContent?.trim() || 'N/A';
-            const arrivalTime = times.length > 1 ? times[1]?.textContent?.trim() : 'N/A';
-            
-            // Extract price 
-            const price = getTextMultiSelector(container, priceSelectors);
-            
-            // Extract flight number
-            const flightNumber = getTextMultiSelector(container, flightNumberSelectors);
-            
-            // Extract airports if available
-            const airportSelectors = ['[class*="airport"]', '[class*="station"]', '[class*="code"]'];
-            const airports = Array.from(container.querySelectorAll(airportSelectors.join(',')));
-            const fromAirport = airports[0]?.textContent?.trim() || 'N/A';
-            const toAirport = airports.length > 1 ? airports[1]?.textContent?.trim() : 'N/A';
-            
-            // Extract duration
-            const durationSelectors = ['[class*="duration"]', '[class*="time"]', '[class*="length"]'];
-            const duration = getTextMultiSelector(container, durationSelectors);
-            
-            // Extract currency
-            const currencyMatch = price.match(/[^\d\s,.]+/);
-            const currency = currencyMatch ? currencyMatch[0] : '';
-            
-            return {
-              flightNumber,
-              departureTime,
-              arrivalTime,
-              price,
-              currency,
-              duration,
-              fromAirport,
-              toAirport,
-              containerText: container.textContent?.trim().substring(0, 100) // For debugging
-            };
-          }
-          return null;
-        }).filter(item => item !== null);
-      });
-      
-      if (moreFlights && moreFlights.length > 0) {
-        console.log(`Found ${moreFlights.length} flights using alternative selectors`);
-        flights.push(...moreFlights);
+  }
+
+  return {
+    result: {
+      flights: outbound.flights,
+      datePrices: outbound.datePrices,
+      inbound
+    },
+    degraded
+  };
+}
+
+/**
+ * Read one leg of the search from the captured availability response, or scrape it from the page
+ * @param page Flight selection page with prices already loaded
+ * @param availability Captured availability response, if any
+ * @param journeyIndex 0 for the outbound leg, 1 for the inbound leg of a return search
+ * @param origin Origin airport code of this leg
+ * @param destination Destination airport code of this leg
+ * @param date Date of this leg in 'YYYY-MM-DD' format
+ * @returns Flights and nearby date prices for this leg
+ */
+async function readJourney(
+  page: Page,
+  availability: AvailabilityResponse | undefined,
+  journeyIndex: number,
+  origin: string,
+  destination: string,
+  date: string
+): Promise<JourneyPrices> {
+  if (availability) {
+    const journey = journeyFromAvailability(availability, origin, destination, date);
+    if (journey) {
+      console.log(`Read ${journey.flights.length} flights and ${journey.datePrices.length} date prices for ${origin} to ${destination} from the availability API`);
+      return journey;
+    }
+    console.log(`Availability response has no data for ${origin} to ${destination}, scraping the page instead`);
+  }
+
+  return extractJourneyFromPage(page, journeyIndex, origin, destination, date);
+}
+
+/**
+ * Extract flights and date prices for one leg of the search from the loaded page
+ * @param page Flight selection page with prices already loaded
+ * @param journeyIndex 0 for the outbound leg, 1 for the inbound leg of a return search
+ * @param origin Origin airport code of this leg
+ * @param destination Destination airport code of this leg
+ * @param date Date of this leg in 'YYYY-MM-DD' format
+ * @returns Flights and nearby date prices for this leg
+ */
+async function extractJourneyFromPage(
+  page: Page,
+  journeyIndex: number,
+  origin: string,
+  destination: string,
+  date: string
+): Promise<JourneyPrices> {
+  // Scope all lookups to this leg's container; one-way pages may not have one at all
+  const journeys = await queryChain(page, pageSelectors().journey);
+  const root: ElementHandle<Element> | null = journeys[journeyIndex] || (journeyIndex === 0 ? await page.$('body') : null);
+  if (!root) {
+    console.log(`No journey container found for ${origin} to ${destination} on ${date}`);
+    return { flights: [], datePrices: [] };
+  }
+
+  return extractJourney(group => scrapeRecords(root, group), pageSelectors(), origin, destination, date);
+}
+
+// Upper bound on searches per sweep, in case the carousel stops advancing
+const MAX_SWEEP_SEARCHES = 40;
+
+/**
+ * Collect date prices for every day in a range by searching further along the
+ * range until the fare carousel has covered it, one search per carousel window
+ * @param from First date of the range in 'YYYY-MM-DD' format
+ * @param to Last date of the range in 'YYYY-MM-DD' format
+ * @param options How each search is run; with a bundle, every day of the range takes a search
+ * of its own, as the carousel has no bundle prices
+ * @returns One date price per day in the range that the carousel showed, sorted by date,
+ * and the flights found on each searched date
+ */
+async function sweepDateRange(
+  origin: string,
+  destination: string,
+  from: string,
+  to: string,
+  passengers: PassengerMix,
+  options: Omit<SearchOptions, 'returnDate'> = {}
+): Promise<JourneyPrices> {
+  const { bundle } = options;
+  const byDate = new Map<string, DatePrice>();
+  const flights: FlightData[] = [];
+
+  let lastCovered = addDays(from, -1);
+  let searchDate = from;
+  const maxSearches = bundle ? daysBetween(from, to) + 1 : MAX_SWEEP_SEARCHES;
+  for (let searches = 0; lastCovered < to && searches < maxSearches; searches++) {
+    console.log(`Sweeping ${origin} to ${destination}: searching ${searchDate} (covered up to ${lastCovered}, sweeping until ${to})`);
+    const found = await checkRyanairPrice(origin, destination, searchDate, passengers, options);
+    const result = bundle ? applyBundle(found, bundle) : found;
+    flights.push(...result.flights);
+
+    for (const datePrice of result.datePrices) {
+      // The price read on its own search beats the same day seen at the edge of another carousel
+      if (!byDate.has(datePrice.isoDate) || datePrice.isSelected) {
+        byDate.set(datePrice.isoDate, datePrice);
       }
     }
-    
-    // If no specific flight cards were found, use the selected date price
-    if (flights.length === 0 && datePrices.length > 0) {
-      const selectedDatePrice = datePrices.find(item => item.isSelected);
-      if (selectedDatePrice) {
-        console.log(`No specific flights found, but selected date price is ${selectedDatePrice.price}`);
-        
-        // Try to find more details on the page
-        const additionalInfo = await page.evaluate(() => {
-          // Try to extract route
-          const routeElement = document.querySelector('.flight-header__route, .route-title');
-          const route = routeElement ? routeElement.textContent?.trim() : '';
-          
-          // Try to extract direct flight info
-          const directElement = document.querySelector('.flight-header__stops, .flight-header__direct');
-          const directInfo = directElement ? directElement.textContent?.trim() : '';
-          
-          // Try to get date info
-          const dateElement = document.querySelector('.flight-header__date');
-          const dateInfo = dateElement ? dateElement.textContent?.trim() : '';
-          
-          // Try to get airport codes
-          const fromElement = document.querySelector('.flight-header__airport-code--from, .airport-code:first-child');
-          const toElement = document.querySelector('.flight-header__airport-code--to, .airport-code:last-child');
-          const fromAirport = fromElement ? fromElement.textContent?.trim() : '';
-          const toAirport = toElement ? toElement.textContent?.trim() : '';
-          
-          return { route, directInfo, dateInfo, fromAirport, toAirport };
-        });
-        
-        // Create a generic flight entry with the date price and any additional info
-        flights.push({
-          flightNumber: additionalInfo.directInfo || 'Direct',
-          departureTime: 'Check website',
-          arrivalTime: 'Check website',
-          price: selectedDatePrice.price,
-          currency: selectedDatePrice.price.replace(/[\d\s,.]+/g, ''),
-          duration: 'Check website',
-          fromAirport: additionalInfo.fromAirport || origin,
-          toAirport: additionalInfo.toAirport || destination
-        });
+
+    // Always move past the searched date, even if the carousel came back empty
+    const shown = result.datePrices.map(datePrice => datePrice.isoDate).sort();
+    const lastShown = shown.length > 0 ? shown[shown.length - 1] : searchDate;
+    lastCovered = [lastCovered, lastShown, searchDate].sort()[2];
+
+    // Centre the next carousel so its first day is the first one not covered yet
+    const daysBefore = result.datePrices.filter(datePrice => datePrice.isoDate < searchDate).length;
+    const nextDate = addDays(lastCovered, 1 + daysBefore);
+    searchDate = nextDate < to ? nextDate : to;
+  }
+
+  if (lastCovered < to) {
+    console.warn(`Sweep of ${origin} to ${destination} stopped at ${lastCovered} before reaching ${to}`);
+  }
+
+  const datePrices = Array.from(byDate.values())
+    .filter(datePrice => datePrice.isoDate >= from && datePrice.isoDate <= to)
+    .sort((a, b) => a.isoDate.localeCompare(b.isoDate));
+
+  return { flights, datePrices };
+}
+
+export interface AlertSettings {
+  notifiers: Notifier[];
+  rules: AlertRule[];
+  state: AlertStateSettings;
+  // Collects non-urgent alerts to send once at the end of the run
+  digest: AlertDigest;
+}
+
+// Alert settings for one-off searches: channels from the environment and the default rules
+const defaultAlertSettings = (digest: AlertDigest): AlertSettings => ({
+  notifiers: channelsFromEnv().map(createNotifier),
+  rules: DEFAULT_RULES,
+  state: DEFAULT_ALERT_STATE_SETTINGS,
+  digest
+});
+
+interface WatchSummary {
+  watch: string;
+  route: string;
+  dates: string;
+  flights: number;
+  cheapest: string;
+  alerts: number;
+  status: string;
+  // 0 when the watch ran, otherwise the exit status for its failure (see exitCodeFor)
+  exitCode: number;
+}
+
+/**
+ * Search one route and date, check for price drops and store the prices
+ * @param options How the search is run and the fare bundle to price, see SearchOptions
+ * @returns The search result and the number of dates that triggered an alert
+ */
+export async function searchAndStore(
+  origin: string,
+  destination: string,
+  date: string,
+  passengers: PassengerMix,
+  alerts: AlertSettings,
+  stores: Stores,
+  options: SearchOptions = {}
+): Promise<{ flightData: FlightPriceResult; alertCount: number }> {
+  const { returnDate, bundle } = options;
+  const { adults, teens, children, infants } = passengers;
+
+  console.log(`Checking flights from ${origin} to ${destination} on ${date}${returnDate ? ` returning ${returnDate}` : ''} for ${adults} adults, ${teens} teens, ${children} children, and ${infants} infants`);
+  const found = await checkRyanairPrice(origin, destination, date, passengers, options);
+  const flightData = bundle ? applyBundle(found, bundle) : found;
+  console.log(`Found ${flightData.flights.length} flights and ${flightData.datePrices.length} date prices` +
+    (flightData.inbound ? `, ${flightData.inbound.flights.length} return flights and ${flightData.inbound.datePrices.length} return date prices` : ''));
+
+  let alertCount = await checkAndLogPriceWarnings(flightData.datePrices, origin, destination, passengers, alerts, stores, bundle);
+  await insertDatePrices(stores.prices, flightData.datePrices, origin, destination, bundle);
+
+  // The inbound leg is stored as its own route so it can be compared with one-way searches
+  if (flightData.inbound) {
+    alertCount += await checkAndLogPriceWarnings(flightData.inbound.datePrices, destination, origin, passengers, alerts, stores, bundle);
+    await insertDatePrices(stores.prices, flightData.inbound.datePrices, destination, origin, bundle);
+  }
+
+  return { flightData, alertCount };
+}
+
+/**
+ * Sweep a date range, check every day for price drops and store the prices
+ * @param options How the searches are run and the fare bundle to price, see SearchOptions
+ * @returns The swept prices and the number of dates that triggered an alert
+ */
+async function sweepAndStore(
+  origin: string,
+  destination: string,
+  from: string,
+  to: string,
+  passengers: PassengerMix,
+  alerts: AlertSettings,
+  stores: Stores,
+  options: Omit<SearchOptions, 'returnDate'> = {}
+): Promise<{ flightData: FlightPriceResult; alertCount: number }> {
+  const { bundle } = options;
+  console.log(`Sweeping flights from ${origin} to ${destination} between ${from} and ${to}`);
+  const flightData = await sweepDateRange(origin, destination, from, to, passengers, options);
+
+  console.log(`Found prices for ${flightData.datePrices.length} dates from ${from} to ${to}`);
+
+  const alertCount = await checkAndLogPriceWarnings(flightData.datePrices, origin, destination, passengers, alerts, stores, bundle);
+  await insertDatePrices(stores.prices, flightData.datePrices, origin, destination, bundle);
+
+  return { flightData, alertCount };
+}
+
+/**
+ * Run a search for every pair of the given airports and rank their results together, see rankPairResults.
+ * Pairs whose search fails, e.g. because Ryanair does not fly them, are left out of the ranking
+ * as long as one pair works; otherwise the first failure is thrown.
+ * @param search Searches, stores and checks one pair, e.g. with searchAndStore
+ * @returns The ranked results and the number of dates that triggered an alert on any pair
+ */
+async function searchAirportPairs(
+  origins: string[],
+  destinations: string[],
+  search: (origin: string, destination: string) => Promise<{ flightData: FlightPriceResult; alertCount: number }>
+): Promise<{ flightData: FlightPriceResult; alertCount: number }> {
+  const pairs = airportPairs(origins, destinations);
+  if (pairs.length === 1) {
+    return search(pairs[0].origin, pairs[0].destination);
+  }
+
+  console.log(`Searching ${pairs.length} airport pairs: ${pairs.map(pair => `${pair.origin}-${pair.destination}`).join(', ')}`);
+  const outcomes = await Promise.all(pairs.map(pair => search(pair.origin, pair.destination).then(
+    result => ({ pair, result, error: undefined }),
+    (error: unknown) => {
+      console.error(`Leaving ${pair.origin} to ${pair.destination} out: ${describeFailure(error)}`);
+      return { pair, result: undefined, error };
+    }
+  )));
+
+  const found = outcomes.filter(outcome => outcome.result);
+  if (found.length === 0) {
+    throw outcomes[0].error;
+  }
+  return {
+    flightData: rankPairResults(found.map(({ pair, result }) => ({ pair, flightData: result!.flightData }))),
+    alertCount: found.reduce((sum, { result }) => sum + result!.alertCount, 0)
+  };
+}
+
+// How long a shutting-down daemon waits for runs in progress, within the 10 seconds docker stop allows
+const SHUTDOWN_GRACE_MS = 8000;
+
+// Status of a watch whose search failed because the process was shutting down
+const INTERRUPTED_STATUS = 'Interrupted by shutdown';
+
+/**
+ * Search one watch, store its prices and check them for alerts.
+ * A failing search is recorded in the summary and announced on the watch's channels instead of being thrown.
+ * @param stores Stores the prices and sent alerts are kept in
+ * @param digest Digest the watch's non-urgent alerts are added to
+ * @param artifacts Run that failure bundles are saved to
+ * @param isShuttingDown Tells whether the process is shutting down, in which case a failure is
+ * put down to the browsers being closed and is not announced
+ */
+async function runWatch(
+  watch: Watch,
+  mode: ExtractionMode,
+  stores: Stores,
+  pool: BrowserPool,
+  digest: AlertDigest,
+  artifacts: ArtifactRun,
+  isShuttingDown: () => boolean = () => false
+): Promise<WatchSummary> {
+  const isSweep = watch.dateFrom !== watch.dateTo;
+  const route = searchRoute(watch.origin, watch.destination, watch.origins, watch.destinations);
+  const alerts: AlertSettings = {
+    notifiers: watch.alerts.enabled ? watch.alerts.channels.map(createNotifier) : [],
+    rules: watch.alerts.rules,
+    state: watch.alerts.state,
+    digest
+  };
+  const summary: WatchSummary = {
+    watch: watch.name,
+    route: `${route.origin} -> ${route.destination}`,
+    dates: isSweep ? `${watch.dateFrom} to ${watch.dateTo}` : watch.dateFrom,
+    flights: 0,
+    cheapest: 'N/A',
+    alerts: 0,
+    status: 'OK',
+    exitCode: 0
+  };
+
+  const options: SearchOptions = { mode, pool, artifacts, bundle: watch.bundle, anyAirport: watch.anyAirport };
+
+  try {
+    const result = await searchAirportPairs(watch.origins, watch.destinations, (origin, destination) => isSweep
+      ? sweepAndStore(origin, destination, watch.dateFrom, watch.dateTo, watch.passengers, alerts, stores, options)
+      : searchAndStore(origin, destination, watch.dateFrom, watch.passengers, alerts, stores, { ...options, returnDate: watch.returnDate }));
+    writeResult(result.flightData, {
+      origin: route.origin,
+      destination: route.destination,
+      date: watch.dateFrom,
+      dateTo: isSweep ? watch.dateTo : undefined,
+      returnDate: watch.returnDate,
+      bundle: watch.bundle
+    }, 'table', process.stderr);
+    summary.flights = result.flightData.flights.length;
+    summary.alerts = result.alertCount;
+
+    let cheapest: DatePrice | undefined;
+    for (const datePrice of result.flightData.datePrices) {
+      const price = datePrice.price;
+      if (price && (!cheapest || (price.currency === cheapest.price!.currency && price.amount < cheapest.price!.amount))) {
+        cheapest = datePrice;
       }
     }
-    
-    // Use time options if we found them but didn't get detailed flight info
-    if (flights.length === 1 && flights[0].departureTime === 'Check website' && timeOptions.length > 0) {
-      // We only have a generic flight entry, let's replace it with more specific ones
-      flights = []; // Clear the array
-      
-      // Convert time options to flight data
-      timeOptions.forEach((option: any) => {
-        flights.push({
-          flightNumber: option.flightNumber || 'Direct flight',
-          departureTime: option.departureTime,
-          arrivalTime: option.arrivalTime,
-          price: option.price,
-          currency: option.price.replace(/[\d\s,.]+/g, '') || 'Ft',
-          duration: 'See website',
-          fromAirport: origin,
-          toAirport: destination
-        });
-      });
+    if (cheapest) {
+      summary.cheapest = `${formatMoney(cheapest.price!)}${watch.bundle ? ` ${watch.bundle}` : ''} on ${cheapest.isoDate}` +
+        (cheapest.pair ? ` (${cheapest.pair.origin}-${cheapest.pair.destination})` : '');
     }
-    
-    console.log(`Found ${flights.length} flights for ${origin} to ${destination} on ${date}`);
-    console.log(`Date prices for nearby dates: ${datePrices.length} found`);
-    
-    return {
-      flights,
-      datePrices
-    };
   } catch (error) {
-    console.error('An error occurred:', error);
-    throw error;
+    const reason = describeFailure(error);
+    if (isShuttingDown()) {
+      console.log(`${watch.name} was cut short by shutdown: ${reason}`);
+      summary.status = INTERRUPTED_STATUS;
+      return summary;
+    }
+    console.error(`Error checking ${watch.name}: ${reason}`);
+    summary.status = `Failed: ${reason}`;
+    summary.exitCode = exitCodeFor(error);
+    await notifyAll(alerts.notifiers, formatFailure(watch.name, route.origin, route.destination, summary.dates, reason));
+  }
+
+  return summary;
+}
+
+/**
+ * Run every watch in a watchlist file and print a summary per watch.
+ * Searches run concurrently through a shared browser pool; a failing search is
+ * recorded in the summary and does not stop the others.
+ * @param path Path to the watchlist JSON file
+ * @param mode Extraction mode passed on to every search
+ * @param stores Stores the prices and sent alerts are kept in
+ * @returns One summary row per watch
+ */
+async function runWatchlist(path: string, mode: ExtractionMode, stores: Stores): Promise<WatchSummary[]> {
+  const watchlist = loadWatchlist(path);
+  console.log(`Loaded ${watchlist.watches.length} watches from ${path}`);
+
+  const pool = createBrowserPool(watchlist.browserPool);
+  // One digest and one directory of failure bundles for the whole run, shared by every watch
+  const digest = createAlertDigest();
+  const artifacts = startArtifactRun('watchlist');
+
+  try {
+    const summaries = await Promise.all(watchlist.watches.map(watch => runWatch(watch, mode, stores, pool, digest, artifacts)));
+
+    console.log('\nWatchlist summary:');
+    console.table(summaries);
+
+    await digest.send();
+
+    return summaries;
   } finally {
-    // Close the browser
-    await browser.close();
-    console.log('Browser closed.');
+    await pool.close();
   }
 }
 
-// Example usage with command line arguments
+/**
+ * Keep running the watches of a watchlist file on their own schedules until SIGTERM or SIGINT.
+ * Every scheduled run of a watch sends its own digest. On shutdown no new runs start, and the
+ * runs in progress get SHUTDOWN_GRACE_MS to finish before the browsers are closed; runs cut
+ * short then fail without announcing it or sending their partial digest, and are caught up after the restart.
+ * @param path Path to the watchlist JSON file
+ * @param mode Extraction mode passed on to every search
+ * @param stores Stores the prices and sent alerts are kept in
+ */
+async function runDaemon(path: string, mode: ExtractionMode, stores: Stores): Promise<void> {
+  const watchlist = loadWatchlist(path);
+  const watches = watchlist.watches;
+
+  // Last-run times are kept by watch name
+  const names = watches.map(watch => watch.name);
+  const duplicate = names.find((name, index) => names.indexOf(name) !== index);
+  if (duplicate) {
+    throw new Error(`Watchlist ${path}: watch name "${duplicate}" is used more than once; give every watch a unique name`);
+  }
+
+  console.log(`Scheduling ${watches.length} watches from ${path}`);
+  const pool = createBrowserPool(watchlist.browserPool);
+  let shuttingDown = false;
+
+  const scheduler = startScheduler(watches.map(watch => ({
+    name: watch.name,
+    schedule: watch.schedule,
+    jitterMinutes: watch.jitterMinutes,
+    async run() {
+      const digest = createAlertDigest();
+      const summary = await runWatch(watch, mode, stores, pool, digest, startArtifactRun(watch.name), () => shuttingDown);
+      console.table([summary]);
+      if (summary.status === INTERRUPTED_STATUS) {
+        console.log(`Not sending the digest of ${watch.name}: the run was cut short by shutdown`);
+        return 'interrupted';
+      }
+      await digest.send();
+      return 'finished';
+    }
+  })), process.env.SCHEDULE_STATE_PATH || 'schedule-state.json');
+
+  await new Promise<void>(resolve => {
+    const shutdown = async (signal: string) => {
+      console.log(`Received ${signal}, shutting down...`);
+      const finished = scheduler.stop();
+      // Runs that finish within the grace period still send their alerts
+      let grace: NodeJS.Timeout | undefined;
+      await Promise.race([finished, new Promise(resolve => { grace = setTimeout(resolve, SHUTDOWN_GRACE_MS); })]);
+      clearTimeout(grace);
+      shuttingDown = true;
+      await pool.close();
+      await finished;
+      resolve();
+    };
+    process.once('SIGTERM', () => shutdown('SIGTERM'));
+    process.once('SIGINT', () => shutdown('SIGINT'));
+  });
+}
+
+// Command line entry point, see USAGE in cli.ts for the commands and their options
 async function main() {
+  let cli: CliCommand;
+  try {
+    cli = parseCli(process.argv.slice(2));
+  } catch (error) {
+    if (error instanceof UsageError) {
+      console.error(`Error: ${error.message}\n\n${USAGE}`);
+      process.exitCode = 2;
+      return;
+    }
+    throw error;
+  }
 
   try {
-    // Use command line arguments or default values
-    const origin = process.argv[2] || 'BUD';         // Budapest
-    const destination = process.argv[3] || 'MAN';    // Manchester
-    const date = process.argv[4] || '2025-08-22';    // Date format: YYYY-MM-DD
-    const adults = parseInt(process.argv[5] || '2'); // Number of adults
-    const teens = parseInt(process.argv[6] || '2');  // Number of teens
-    const children = parseInt(process.argv[7] || '0'); // Number of children
-    const infants = parseInt(process.argv[8] || '0'); // Number of infants
-    
-    console.log(`Checking flights from ${origin} to ${destination} on ${date} for ${adults} adults, ${teens} teens, ${children} children, and ${infants} infants`);
-    const flightData = await checkRyanairPrice(origin, destination, date, adults, teens, children, infants);
-    
-    // Display the results
-    console.log('\nFlight Prices:');
-    console.table(flightData.flights);
-    
-    console.log('\nPrices for nearby dates:');
-    console.table(flightData.datePrices);
-    
-    await checkAndLogPriceWarnings(flightData.datePrices, origin, destination);
-
-    // Insert datePrices into Supabase
-    for (const datePrice of flightData.datePrices) {
-      const postgresDate = convertToPostgresDate(datePrice.date);
-      const { error } = await supabase.from('FlightPrices').insert({
-        date: postgresDate,
-        weekday: datePrice.weekday,
-        price: parseFloat(datePrice.price.replace(/,/g, '')),
-        currency: datePrice.currency,
-        exactDate: datePrice.isSelected,
-        origin: origin,
-        destination: destination
-      });
+    switch (cli.command) {
+      case 'help':
+        process.stdout.write(USAGE + '\n');
+        return;
+
+      case 'alerts': {
+        const active = await listActiveAlerts(openAlertStateStore());
+        results.log(`${active.length} active alerts`);
+        results.table(active.map(state => ({
+          route: `${state.origin} -> ${state.destination}`,
+          date: state.date,
+          bundle: state.bundle || '',
+          rule: describeRule(JSON.parse(state.rule)),
+          firedAt: state.firedAt,
+          price: formatMoney(state.price),
+          lowestSince: formatMoney(state.lowestPrice)
+        })));
+        return;
+      }
+
+      case 'history': {
+        const history = await openPriceStore().history(cli.origin, cli.destination, cli.date, cli.bundle);
+        results.log(`${history.length} stored ${cli.bundle ? `${cli.bundle} ` : ''}prices for ${cli.date} (${cli.origin} -> ${cli.destination})`);
+        results.table(history.map(row => ({
+          checkedAt: row.createdAt,
+          price: row.price ? formatMoney(row.price) : 'N/A',
+          exactDate: row.exactDate
+        })));
+        return;
+      }
+
+      case 'watch':
+        // A broken selectors file fails the command before any search starts
+        pageSelectors();
+        if (cli.once) {
+          const summaries = await runWatchlist(cli.watchlist, cli.mode, openStores());
+          // One failure kind keeps its own exit status; a mix of failures exits with 1
+          const failures = Array.from(new Set(summaries.map(summary => summary.exitCode).filter(code => code !== 0)));
+          process.exitCode = failures.length === 0 ? 0 : failures.length === 1 ? failures[0] : 1;
+        } else {
+          await runDaemon(cli.watchlist, cli.mode, openStores());
+        }
+        return;
 
-      if (error) {
-        console.error('Error inserting datePrice:', error);
-      } else {
-        console.log('Inserted datePrice:', datePrice);
+      case 'analyze-page': {
+        const source = cli.trip
+          ? { url: buildSelectUrl(cli.trip.origins[0], cli.trip.destinations[0], cli.trip.date, cli.trip.passengers) }
+          : { snapshot: cli.snapshot! };
+        const report = await analyzeRyanairStructure(source, cli.selectorsFile ? loadSelectorRegistry(cli.selectorsFile) : pageSelectors());
+        results.log(`\nSelectors version ${report.version} against ${report.source}:`);
+        results.table(report.selectors);
+        results.table(report.fields);
+        if (report.broken.length > 0) {
+          results.log(`\nRequired selectors that matched nothing:\n${report.broken.map(problem => `  ${problem}`).join('\n')}`);
+          process.exitCode = SELECTORS_BROKEN_EXIT_CODE;
+        } else {
+          results.log('\nAll required selectors matched');
+        }
+        return;
+      }
+
+      case 'search': {
+        // A broken selectors file fails the command before any search starts
+        pageSelectors();
+        const { origin, destination, origins, destinations, date, passengers, mode, anyAirport } = cli.trip;
+        const isSweep = !!cli.dateTo && cli.dateTo !== date;
+        const isFanOut = airportPairs(origins, destinations).length > 1;
+        // Codes such as BUD rather than the names typed, e.g. Budapest, unless several pairs are ranked
+        const route = searchRoute(origin, destination, origins, destinations);
+        const digest = createAlertDigest();
+        const alerts = defaultAlertSettings(digest);
+        const stores = openStores();
+        const artifacts = startArtifactRun('search');
+        let result: { flightData: FlightPriceResult };
+        try {
+          // Sweeps and airport pairs run several searches, which share one browser
+          const pool = isSweep || isFanOut ? createBrowserPool({ concurrency: 1 }) : undefined;
+          const options: SearchOptions = { mode, pool, artifacts, bundle: cli.bundle, anyAirport };
+          try {
+            result = await searchAirportPairs(origins, destinations, (pairOrigin, pairDestination) => isSweep
+              ? sweepAndStore(pairOrigin, pairDestination, date, cli.dateTo!, passengers, alerts, stores, options)
+              : searchAndStore(pairOrigin, pairDestination, date, passengers, alerts, stores, { ...options, returnDate: cli.returnDate }));
+          } finally {
+            await pool?.close();
+          }
+        } catch (error) {
+          const dates = isSweep ? `${date} to ${cli.dateTo}` : date;
+          await notifyAll(alerts.notifiers, formatFailure(`search ${route.origin} to ${route.destination}`, route.origin, route.destination, dates, describeFailure(error)));
+          throw error;
+        }
+        await digest.send();
+
+        writeResult(result.flightData, {
+          origin: route.origin,
+          destination: route.destination,
+          date,
+          dateTo: isSweep ? cli.dateTo : undefined,
+          returnDate: cli.returnDate,
+          bundle: cli.bundle
+        }, cli.format);
+        return;
       }
     }
   } catch (error) {
-    console.error('Error in main function:', error);
-    return [];
+    console.error(`${cli.command} failed: ${describeFailure(error)}`);
+    if (!(error instanceof ScrapeError)) {
+      console.error(error);
+    }
+    process.exitCode = exitCodeFor(error);
   }
 }
 
-// Run the script
-main().catch(console.error);
+// Run the script, unless it is imported, e.g. by the end-to-end tests
+if (require.main === module) {
+  // Progress logs go to stderr, so stdout only carries the results and can be piped into other tools
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
 
-// Convert date to Postgres-friendly format
-const convertToPostgresDate = (dateString: string): string => {
-  const [day, month] = dateString.split(' ');
-  const monthMap: { [key: string]: string } = {
-    Jan: '01', Feb: '02', Mar: '03', Apr: '04', May: '05', Jun: '06',
-    Jul: '07', Aug: '08', Sep: '09', Oct: '10', Nov: '11', Dec: '12'
-  };
-  const monthNumber = monthMap[month as keyof typeof monthMap];
-  const year = new Date().getFullYear();
-  return `${year}-${monthNumber}-${day.padStart(2, '0')}`;
-};
+  main().catch(error => {
+    console.error(error);
+    process.exitCode = 1;
+  });
+}
 
-async function checkAndLogPriceWarnings(datePrices: DatePrice[], origin: string, destination: string) {
+// Insert datePrices into the price store, tagged with the bundle they are priced in if any
+async function insertDatePrices(priceStore: PriceStore, datePrices: DatePrice[], origin: string, destination: string, bundle?: string) {
   for (const datePrice of datePrices) {
-    const postgresDate = convertToPostgresDate(datePrice.date);
-
-    // Fetch the most recent price for the given date from the database
-    const { data: recentPrices, error } = await supabase
-      .from('FlightPrices')
-      .select('price')
-      .eq('date', postgresDate)
-      .eq('origin', origin)
-      .eq('destination', destination)
-      .order('created_at', { ascending: false })
-      .limit(1);
-
-    if (error) {
+    try {
+      await priceStore.insert({
+        date: datePrice.isoDate,
+        weekday: datePrice.weekday,
+        price: datePrice.price,
+        exactDate: datePrice.isSelected,
+        origin: origin,
+        destination: destination,
+        bundle
+      });
+      console.log('Inserted datePrice:', datePrice);
+    } catch (error) {
+      console.error('Error inserting datePrice:', error);
+    }
+  }
+}
+
+/**
+ * Check each date price against the alert rules and report every date where one fires.
+ * Dates where an urgent rule fired are sent at once; the rest go into the run's digest.
+ * @param passengers Party searched for, used in the booking link of each alert
+ * @param alerts Channels to alert, rules to check and the digest to add to; matches are logged either way
+ * @param stores Stores the earlier prices and sent alerts are read from
+ * @param bundle Fare bundle the prices are in; compared only with stored prices of the same bundle
+ * @returns Number of dates that triggered an alert
+ */
+async function checkAndLogPriceWarnings(
+  datePrices: DatePrice[],
+  origin: string,
+  destination: string,
+  passengers: PassengerMix,
+  alerts: AlertSettings,
+  stores: Stores,
+  bundle?: string
+): Promise<number> {
+  let alertCount = 0;
+
+  for (const datePrice of datePrices) {
+    const currentPrice = datePrice.price;
+    if (!currentPrice) {
+      continue;
+    }
+
+    // Fetch the stored prices for the given date from the price store
+    let history: StoredPrice[];
+    try {
+      history = await stores.prices.history(origin, destination, datePrice.isoDate, bundle);
+      console.log(`Fetched ${history.length} stored prices for ${datePrice.isoDate} (${origin} -> ${destination})`);
+    } catch (error) {
       console.error('Error fetching recent prices:', error);
       continue;
-    } else {
-      console.log('Fetched recent prices:', recentPrices);
     }
 
-    if (recentPrices && recentPrices.length > 0) {
-      const recentPrice = recentPrices[0].price;
-      const currentPrice = parseFloat(datePrice.price.replace(/,/g, ''));
-
-      if (currentPrice < recentPrice) {
-        sendPriceDropEmail(
-          `Price drop detected for ${datePrice.date} (${origin} -> ${destination})`,
-          `Previous price: ${recentPrice}, Current price: ${currentPrice}`
-        );
-
-        console.warn(
-          `Price drop detected for ${datePrice.date} (${origin} -> ${destination}): ` +
-          `Previous: ${recentPrice}, Current: ${currentPrice}`
-        );
-      } else {
-        console.log(
-          `No price drop for ${datePrice.date} (${origin} -> ${destination}): ` +
-          `Previous: ${recentPrice}, Current: ${currentPrice}`
-        );
+    const previousPrice = history.length > 0 ? history[history.length - 1].price : null;
+    const previous = previousPrice ? formatMoney(previousPrice) : 'N/A';
+    const fired = evaluateRules(alerts.rules, { current: currentPrice, history });
+
+    // Leave out rules already announced for this date that have not been rearmed yet
+    let announcement: AlertAnnouncement = { matches: fired, confirm: async () => undefined };
+    try {
+      announcement = await filterAnnouncedAlerts(stores.alertState, origin, destination, datePrice.isoDate, bundle, currentPrice, fired, alerts.rules, alerts.state);
+    } catch (error) {
+      console.error('Error reading alert state, sending every matching alert:', error);
+    }
+    const { matches } = announcement;
+    // Recorded as announced only once delivered, so an alert that failed to send is retried next run
+    const confirm = async () => {
+      try {
+        await announcement.confirm();
+      } catch (error) {
+        console.error('Error saving alert state:', error);
       }
+    };
+
+    if (matches.length === 0) {
+      console.log(
+        `No ${fired.length > 0 ? 'new ' : ''}alert for ${datePrice.isoDate} (${origin} -> ${destination}): ` +
+        `Previous: ${previous}, Current: ${formatMoney(currentPrice)}`
+      );
+      continue;
     }
-  }
-}
 
-async function sendPriceDropEmail(subject: string, text: string) {
-  try {
-    // Send the email
-    const response = await resend.emails.send({
-      from: 'onboarding@resend.dev',
-      to: 'bicskeit@gmail.com',
-      subject: subject,
-      text: text
+    alertCount++;
+    const reasons = matches.map(match => `${describeRule(match.rule)}: ${match.reason}`);
+    console.warn(
+      `Price alert for ${datePrice.isoDate} (${origin} -> ${destination}): ` +
+      `Previous: ${previous}, Current: ${formatMoney(currentPrice)}. Fired: ${reasons.join('; ')}`
+    );
+
+    const entry: AlertEntry = {
+      origin,
+      destination,
+      date: datePrice.isoDate,
+      previousPrice,
+      currentPrice,
+      reasons,
+      history: history.map(row => row.price).filter((price): price is Money => !!price),
+      bookingUrl: buildSelectUrl(origin, destination, datePrice.isoDate, passengers),
+      bundle
+    };
+
+    if (!matches.some(match => match.rule.urgent)) {
+      alerts.digest.add(alerts.notifiers, entry, confirm);
+      continue;
+    }
+
+    const summary = describeRule(matches[0].rule) + (matches.length > 1 ? ` (+${matches.length - 1} more)` : '');
+    const message = formatAlert(entry, summary);
+    const delivered = await notifyAll(alerts.notifiers, {
+      ...message,
+      data: {
+        ...message.data,
+        rules: matches.map(match => ({ type: match.rule.type, description: describeRule(match.rule), reason: match.reason }))
+      }
     });
-    console.log('Email sent:', response.data);
-  } catch (error) {
-    console.error('Error sending email:', error);
+    if (delivered > 0 || alerts.notifiers.length === 0) {
+      await confirm();
+    } else {
+      console.warn(`Price alert for ${datePrice.isoDate} (${origin} -> ${destination}) was not delivered, it will be sent again on the next run`);
+    }
   }
-}
\ No newline at end of file
+
+  return alertCount;
+}
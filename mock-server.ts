@@ -0,0 +1,352 @@
+import { createServer, IncomingMessage, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { parseArgs } from 'util';
+import { addDays, MONTHS, WEEKDAYS } from './dates';
+import { AvailabilityResponse, SELECT_PAGE_PATH } from './ryanair-api';
+
+// 'normal' serves the same fares every time, 'price-drop' lowers them on every visit to a search,
+// 'slow' renders the prices only after a delay, 'no-flights' sells out the searched date,
+// 'bot-wall' answers with an access-denied page
+export type MockScenario = 'normal' | 'price-drop' | 'slow' | 'no-flights' | 'bot-wall';
+
+export const MOCK_SCENARIOS: MockScenario[] = ['normal', 'price-drop', 'slow', 'no-flights', 'bot-wall'];
+
+export interface MockServerOptions {
+  // 0 picks a free port
+  port: number;
+  // Scenario of requests whose path does not start with /scenario/<name>
+  scenario: MockScenario;
+  // How long the slow scenario takes to show the prices, in milliseconds
+  slowMs: number;
+  // How much each fare drops per visit in the price-drop scenario, in euros
+  priceDrop: number;
+}
+
+export interface MockServer {
+  // Base URL to search on, e.g. 'http://localhost:8080'; use as RYANAIR_BASE_URL
+  url: string;
+  // Forget the visits, so the price-drop scenario starts from the full fares again
+  reset(): void;
+  close(): Promise<void>;
+}
+
+const DEFAULT_OPTIONS: MockServerOptions = {
+  port: 8080,
+  scenario: 'normal',
+  slowMs: 15000,
+  priceDrop: 5
+};
+
+const AVAILABILITY_PATH = '/api/booking/v4/en-gb/availability';
+// Days shown either side of the searched date in the carousel
+const CAROUSEL_DAYS = 2;
+// Fares never drop below this, however often the price-drop scenario is visited
+const MIN_FARE = 4.99;
+
+// Every route flies the same two flights a day
+const SCHEDULE = [
+  { departure: '06:15', arrival: '07:55', duration: '02:40', number: 100, surcharge: 0 },
+  { departure: '18:40', arrival: '20:20', duration: '02:40', number: 200, surcharge: 12 }
+];
+
+// Bundles every flight is sold in, as extra euros on top of the Basic fare
+const BUNDLES = [
+  { name: 'Basic', surcharge: 0, benefits: ['1 small bag (40x20x25cm)'] },
+  { name: 'Regular', surcharge: 18, benefits: ['1 small bag', 'Priority & 2 cabin bags (10kg)', 'Reserved seat'] },
+  { name: 'Plus', surcharge: 25, benefits: ['1 small bag', '20kg check-in bag', 'Reserved seat'] },
+  { name: 'Flexi Plus', surcharge: 55, benefits: ['Priority & 2 cabin bags (10kg)', '20kg check-in bag', 'Reserved seat', 'Flexible ticket changes'] }
+];
+
+interface Leg {
+  origin: string;
+  destination: string;
+  date: string;
+}
+
+interface MockFlight {
+  flightNumber: string;
+  departure: string;
+  arrival: string;
+  duration: string;
+  fare: number;
+  bundles: { name: string; fare: number; benefits: string[] }[];
+}
+
+/**
+ * Start a local HTTP server that imitates the parts of the Ryanair site the scraper uses:
+ * the flight selection page with its cookie banner, date carousel and flight cards, and the
+ * availability API the page loads its fares from. Fares are made up but stable per route and date.
+ * The scenario can be chosen per request by prefixing the path, e.g.
+ * http://localhost:8080/scenario/bot-wall as the base URL.
+ */
+export function startMockServer(options: Partial<MockServerOptions> = {}): Promise<MockServer> {
+  const settings: MockServerOptions = { ...DEFAULT_OPTIONS, ...options };
+  // Visits to the selection page per route and date, for the price-drop scenario
+  const visits = new Map<string, number>();
+
+  const server = createServer((request, response) => {
+    handleRequest(request, response, settings, visits).catch(error => {
+      console.error('Mock server error:', error);
+      response.writeHead(500).end();
+    });
+  });
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(settings.port, () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        url: `http://localhost:${port}`,
+        reset: () => visits.clear(),
+        close: () => new Promise(done => {
+          // Browsers keep connections open, which would hold up the close
+          server.closeAllConnections();
+          server.close(() => done());
+        })
+      });
+    });
+  });
+}
+
+async function handleRequest(
+  request: IncomingMessage,
+  response: ServerResponse,
+  settings: MockServerOptions,
+  visits: Map<string, number>
+): Promise<void> {
+  const url = new URL(request.url || '/', 'http://localhost');
+  if (url.pathname === '/__reset' && request.method === 'POST') {
+    visits.clear();
+    response.writeHead(204).end();
+    return;
+  }
+
+  const match = url.pathname.match(/^\/scenario\/([^/]+)(\/.*)$/);
+  const scenario = (match ? match[1] : settings.scenario) as MockScenario;
+  const path = match ? match[2] : url.pathname;
+  const prefix = match ? `/scenario/${scenario}` : '';
+  if (!MOCK_SCENARIOS.includes(scenario)) {
+    response.writeHead(404, { 'Content-Type': 'text/plain' }).end(`Unknown scenario ${scenario}`);
+    return;
+  }
+
+  if (scenario === 'bot-wall' && (path === SELECT_PAGE_PATH || path === AVAILABILITY_PATH)) {
+    response.writeHead(403, { 'Content-Type': 'text/html' }).end(BOT_WALL_PAGE);
+    return;
+  }
+
+  if (path === SELECT_PAGE_PATH) {
+    const params = url.searchParams;
+    const outbound = legFrom(params.get('originIata'), params.get('destinationIata'), params.get('dateOut'));
+    if (!outbound) {
+      response.writeHead(400, { 'Content-Type': 'text/plain' }).end('originIata, destinationIata and dateOut are required');
+      return;
+    }
+    const returnDate = params.get('isReturn') === 'true' ? params.get('dateIn') : null;
+    const legs = returnDate ? [outbound, { origin: outbound.destination, destination: outbound.origin, date: returnDate }] : [outbound];
+
+    // Both legs of a visit see the same drop, and so does the availability request the page makes
+    const visit = visits.get(visitKey(outbound)) || 0;
+    visits.set(visitKey(outbound), visit + 1);
+
+    const availabilityQuery = new URLSearchParams({
+      Origin: outbound.origin,
+      Destination: outbound.destination,
+      DateOut: outbound.date,
+      DateIn: returnDate || '',
+      RoundTrip: String(!!returnDate)
+    });
+    const page = selectPage(legs, scenario, visit, settings, `${prefix}${AVAILABILITY_PATH}?${availabilityQuery}`);
+    response.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' }).end(page);
+    return;
+  }
+
+  if (path === AVAILABILITY_PATH) {
+    const params = url.searchParams;
+    const outbound = legFrom(params.get('Origin'), params.get('Destination'), params.get('DateOut'));
+    if (!outbound) {
+      response.writeHead(400, { 'Content-Type': 'text/plain' }).end('Origin, Destination and DateOut are required');
+      return;
+    }
+    const returnDate = params.get('RoundTrip') === 'true' ? params.get('DateIn') : null;
+    const legs = returnDate ? [outbound, { origin: outbound.destination, destination: outbound.origin, date: returnDate }] : [outbound];
+    // The page was just visited, so its visit is the last one counted
+    const visit = Math.max(0, (visits.get(visitKey(outbound)) || 1) - 1);
+
+    if (scenario === 'slow') {
+      await new Promise(resolve => setTimeout(resolve, settings.slowMs));
+    }
+    response.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify(availability(legs, scenario, visit, settings)));
+    return;
+  }
+
+  response.writeHead(404, { 'Content-Type': 'text/plain' }).end('Not found');
+}
+
+const legFrom = (origin: string | null, destination: string | null, date: string | null): Leg | null =>
+  origin && destination && date ? { origin, destination, date } : null;
+
+// Visits are counted per route and searched date, so every date of a sweep drops on each run
+const visitKey = (outbound: Leg): string => `${outbound.origin}-${outbound.destination}-${outbound.date}`;
+
+/**
+ * Flights of a leg on one day; none on the searched date in the no-flights scenario
+ */
+function flightsOn(leg: Leg, date: string, scenario: MockScenario, visit: number, settings: MockServerOptions): MockFlight[] {
+  if (scenario === 'no-flights' && date === leg.date) {
+    return [];
+  }
+  const base = 20 + hash(`${leg.origin}${leg.destination}${date}`) % 60;
+  const drop = scenario === 'price-drop' ? visit * settings.priceDrop : 0;
+
+  return SCHEDULE.map(flight => {
+    const fare = Math.round(Math.max(MIN_FARE, base + flight.surcharge + 0.99 - drop) * 100) / 100;
+    return {
+      flightNumber: `FR ${flight.number + hash(leg.origin + leg.destination) % 100}`,
+      departure: flight.departure,
+      arrival: flight.arrival,
+      duration: flight.duration,
+      fare,
+      bundles: BUNDLES.map(({ name, surcharge, benefits }) => ({ name, fare: Math.round((fare + surcharge) * 100) / 100, benefits }))
+    };
+  });
+}
+
+function selectPage(legs: Leg[], scenario: MockScenario, visit: number, settings: MockServerOptions, availabilityUrl: string): string {
+  const journeys = legs.map(leg => journeyHtml(leg, scenario, visit, settings)).join('\n');
+  // The slow scenario renders its prices late, as the real page does on a bad day
+  const content = scenario === 'slow'
+    ? `<template id="journeys">${journeys}</template>
+  <script>
+    setTimeout(() => document.body.appendChild(document.getElementById('journeys').content.cloneNode(true)), ${settings.slowMs});
+  </script>`
+    : journeys;
+
+  return `<!DOCTYPE html>
+<html>
+<head><title>Ryanair - Select your flights</title></head>
+<body>
+  <div id="cookie-popup">
+    <p>We use cookies to improve your experience.</p>
+    <button data-ref="cookie.accept-all" onclick="document.getElementById('cookie-popup').remove()">Yes, I agree</button>
+  </div>
+  ${content}
+  <script>
+    fetch('${availabilityUrl}').catch(() => {});
+  </script>
+</body>
+</html>
+`;
+}
+
+function journeyHtml(leg: Leg, scenario: MockScenario, visit: number, settings: MockServerOptions): string {
+  const dateItems = [];
+  for (let offset = -CAROUSEL_DAYS; offset <= CAROUSEL_DAYS; offset++) {
+    const date = addDays(leg.date, offset);
+    const fares = flightsOn(leg, date, scenario, visit, settings).map(flight => flight.fare);
+    const [year, month, day] = date.split('-').map(Number);
+    dateItems.push(`      <li class="date-item${offset === 0 ? ' date-item--selected' : ''}">
+        <span class="date-item__day-of-week">${WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()]}</span>
+        <span class="date-item__day-of-month">${String(day).padStart(2, '0')}</span>
+        <span class="date-item__month">${MONTHS[month - 1]}</span>
+        ${fares.length > 0 ? `<span class="date-item__price">€${Math.min(...fares).toFixed(2)}</span>` : '<span class="date-item__sold-out">Sold out</span>'}
+      </li>`);
+  }
+
+  const flights = flightsOn(leg, leg.date, scenario, visit, settings);
+  const cards = flights.length > 0
+    ? flights.map(flight => `    <div class="card-flight" data-e2e="flight-card">
+      <div data-ref="flight-segment.departure"><span class="flight-info__hour">${flight.departure}</span></div>
+      <div data-ref="flight-segment.arrival"><span class="flight-info__hour">${flight.arrival}</span></div>
+      <span class="card-flight-num__content">${flight.flightNumber}</span>
+      <span data-ref="flight_duration">${flight.duration.replace(/^0?(\d+):(\d+)$/, '$1h $2m')}</span>
+      <span data-e2e="flight-card-price">€${flight.fare.toFixed(2)}</span>
+      <ul class="fare-table">
+${flight.bundles.map(bundle => `        <li class="fare-card" data-e2e="fare-card">
+          <h4 data-e2e="fare-card-title">${bundle.name}</h4>
+          <span data-e2e="fare-card-price">€${bundle.fare.toFixed(2)}</span>
+          <ul class="fare-card__benefits">${bundle.benefits.map(benefit => `<li>${benefit}</li>`).join('')}</ul>
+        </li>`).join('\n')}
+      </ul>
+    </div>`).join('\n')
+    : '    <p class="no-flights">There are no flights on this date. Please choose another date.</p>';
+
+  return `<journey-container class="journey-container">
+    <ul class="date-carousel">
+${dateItems.join('\n')}
+    </ul>
+${cards}
+  </journey-container>`;
+}
+
+function availability(legs: Leg[], scenario: MockScenario, visit: number, settings: MockServerOptions): AvailabilityResponse {
+  return {
+    currency: 'EUR',
+    trips: legs.map(leg => {
+      const dates = [];
+      for (let offset = -CAROUSEL_DAYS; offset <= CAROUSEL_DAYS; offset++) {
+        const date = addDays(leg.date, offset);
+        dates.push({
+          dateOut: `${date}T00:00:00.000`,
+          flights: flightsOn(leg, date, scenario, visit, settings).map(flight => ({
+            flightNumber: flight.flightNumber.replace(' ', ''),
+            time: [`${date}T${flight.departure}:00.000`, `${date}T${flight.arrival}:00.000`],
+            duration: flight.duration,
+            regularFare: { fares: [{ type: 'ADT', amount: flight.fare, count: 1 }] },
+            // The API has no Regular fare, like the real one
+            leisureFare: { fares: [{ type: 'ADT', amount: bundleFare(flight, 'Plus'), count: 1 }] },
+            businessFare: { fares: [{ type: 'ADT', amount: bundleFare(flight, 'Flexi Plus'), count: 1 }] }
+          }))
+        });
+      }
+      return { origin: leg.origin, destination: leg.destination, dates };
+    })
+  };
+}
+
+const bundleFare = (flight: MockFlight, name: string): number =>
+  flight.bundles.find(bundle => bundle.name === name)!.fare;
+
+const BOT_WALL_PAGE = `<!DOCTYPE html>
+<html>
+<head><title>Access Denied</title></head>
+<body><h1>Access Denied</h1><p>You don't have permission to access this page.</p></body>
+</html>
+`;
+
+// Small stable hash, so fares differ between routes and dates but not between runs
+const hash = (text: string): number =>
+  Array.from(text).reduce((sum, char) => (sum * 31 + char.charCodeAt(0)) % 100003, 7);
+
+// Start the server from the command line, e.g. ts-node mock-server.ts --port 8080 --scenario price-drop
+if (require.main === module) {
+  const { values } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      scenario: { type: 'string' },
+      'slow-ms': { type: 'string' },
+      'price-drop': { type: 'string' }
+    }
+  });
+  const scenario = (values.scenario || DEFAULT_OPTIONS.scenario) as MockScenario;
+  if (!MOCK_SCENARIOS.includes(scenario)) {
+    console.error(`--scenario must be one of ${MOCK_SCENARIOS.join(', ')}`);
+    process.exit(2);
+  }
+
+  startMockServer({
+    port: values.port ? parseInt(values.port, 10) : DEFAULT_OPTIONS.port,
+    scenario,
+    slowMs: values['slow-ms'] ? parseInt(values['slow-ms'], 10) : DEFAULT_OPTIONS.slowMs,
+    priceDrop: values['price-drop'] ? parseFloat(values['price-drop']) : DEFAULT_OPTIONS.priceDrop
+  }).then(server => {
+    console.log(`Mock Ryanair server (${scenario}) listening on ${server.url}`);
+    console.log(`Search it with RYANAIR_BASE_URL=${server.url}, or ${server.url}/scenario/<name> for another scenario`);
+    const shutdown = () => server.close().then(() => process.exit(0));
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
+  }).catch(error => {
+    console.error('Could not start the mock server:', error);
+    process.exit(1);
+  });
+}
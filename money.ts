@@ -0,0 +1,138 @@
+export interface Money {
+  // Integer amount in the currency's minor units (e.g. cents), so comparisons never hit float rounding
+  amount: number;
+  // ISO 4217 currency code, e.g. 'EUR'
+  currency: string;
+}
+
+// Symbols and local abbreviations Ryanair shows in front of or after prices
+const CURRENCY_SYMBOLS: { [symbol: string]: string } = {
+  '€': 'EUR',
+  '£': 'GBP',
+  '$': 'USD',
+  'Ft': 'HUF',
+  'zł': 'PLN',
+  'Kč': 'CZK',
+  'lei': 'RON',
+  'лв': 'BGN',
+  'лв.': 'BGN',
+  'CHF': 'CHF',
+  'dh': 'MAD',
+  'DH': 'MAD',
+  'MAD': 'MAD',
+  'kr': 'SEK',
+  'kr.': 'DKK',
+  'Nkr': 'NOK',
+  '₺': 'TRY',
+  '₪': 'ILS'
+};
+
+// Symbols several currencies share, and the currencies a hint may pick between
+const SHARED_SYMBOLS: { [symbol: string]: string[] } = {
+  'kr': ['SEK', 'NOK', 'DKK', 'ISK'],
+  'kr.': ['DKK', 'NOK']
+};
+
+// ISO 4217 minor unit exponents that differ from the usual 2
+const MINOR_UNITS: { [currency: string]: number } = {
+  ISK: 0,
+  JPY: 0,
+  KRW: 0
+};
+
+/**
+ * Map a currency symbol, abbreviation or code to its ISO 4217 code
+ * @param symbol Currency text as shown on the page (e.g. '£', 'Ft') or stored (e.g. 'HUF')
+ * @returns ISO 4217 code, or null if the symbol is unknown
+ */
+export function currencyCode(symbol: string): string | null {
+  const trimmed = symbol.trim();
+  if (CURRENCY_SYMBOLS[trimmed]) {
+    return CURRENCY_SYMBOLS[trimmed];
+  }
+  if (/^[A-Z]{3}$/.test(trimmed)) {
+    return trimmed;
+  }
+  return null;
+}
+
+export const minorUnits = (currency: string): number =>
+  MINOR_UNITS[currency] !== undefined ? MINOR_UNITS[currency] : 2;
+
+/**
+ * Build a Money value from a decimal amount in major units, e.g. 29.99 EUR
+ * @param value Amount in major units
+ * @param currency ISO 4217 code or a currency symbol
+ * @returns Money value, or null if the currency is unknown or the value is not a number
+ */
+export function moneyFromDecimal(value: number, currency: string): Money | null {
+  const code = currencyCode(currency);
+  if (!code || !isFinite(value)) {
+    return null;
+  }
+  return { amount: Math.round(value * Math.pow(10, minorUnits(code))), currency: code };
+}
+
+export const moneyToDecimal = (money: Money): number =>
+  money.amount / Math.pow(10, minorUnits(money.currency));
+
+/**
+ * Parse a displayed price such as '£29.99', '1.234,56 €' or '12 345 Ft'
+ * @param text Price text as shown on the page
+ * @param currencyHint Currency to use when the text has no symbol of its own, or a symbol
+ * such as 'kr' that several currencies share
+ * @param locale Locale the price was formatted in; the separators are guessed when omitted
+ * @returns Money value, or null if the text holds no price or the currency is unknown
+ */
+export function parseMoney(text: string, currencyHint?: string, locale?: string): Money | null {
+  const numberMatch = text.match(/\d[\d\s,.']*/);
+  if (!numberMatch) {
+    return null;
+  }
+
+  // A dot right after the symbol belongs to it, as in 'kr.' and 'лв.'
+  const symbolMatch = text.replace(numberMatch[0], ' ').match(/[^\d\s,.'\-]+\.?/);
+  const symbol = !symbolMatch ? '' : currencyCode(symbolMatch[0]) ? symbolMatch[0] : symbolMatch[0].replace(/\.$/, '');
+  const hinted = currencyHint ? currencyCode(currencyHint) : null;
+  const shared = SHARED_SYMBOLS[symbol];
+  const currency = (hinted && shared && shared.includes(hinted) ? hinted : currencyCode(symbol)) || hinted;
+  if (!currency) {
+    return null;
+  }
+
+  const decimalSeparator = locale ? localeDecimalSeparator(locale) : guessDecimalSeparator(numberMatch[0].trim());
+  const digits = numberMatch[0].trim().split(decimalSeparator);
+  const whole = digits[0].replace(/\D/g, '');
+  const fraction = digits.length > 1 ? digits[digits.length - 1].replace(/\D/g, '') : '';
+
+  return moneyFromDecimal(parseFloat(`${whole}.${fraction || '0'}`), currency);
+}
+
+/**
+ * Format a Money value for messages, e.g. '29.99 EUR'
+ */
+export const formatMoney = (money: Money): string =>
+  `${moneyToDecimal(money).toFixed(minorUnits(money.currency))} ${money.currency}`;
+
+const localeDecimalSeparator = (locale: string): string => {
+  const part = new Intl.NumberFormat(locale).formatToParts(1.5).find(part => part.type === 'decimal');
+  return part ? part.value : '.';
+};
+
+// With no locale, the last separator is the decimal one unless it is followed by exactly three digits
+// or repeated, in which case it is grouping ('12,345', '1.234.567')
+const guessDecimalSeparator = (number: string): string => {
+  const separators = number.match(/[,.]/g);
+  if (!separators) {
+    return '.';
+  }
+
+  const last = separators[separators.length - 1];
+  const digitsAfter = number.length - number.lastIndexOf(last) - 1;
+  const repeated = separators.filter(separator => separator === last).length > 1;
+  if (repeated || (digitsAfter === 3 && separators.length === 1)) {
+    // Grouping only: pick a separator that does not occur so the whole number is kept
+    return last === ',' ? '.' : ',';
+  }
+  return last;
+};
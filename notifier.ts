@@ -0,0 +1,149 @@
+import { appendFileSync } from 'fs';
+import { Resend } from 'resend';
+
+export interface AlertMessage {
+  subject: string;
+  // Plain-text body, used by channels that cannot show HTML and as the email fallback
+  text: string;
+  html?: string;
+  // Structured details for machine consumers such as webhooks
+  data?: { [key: string]: unknown };
+}
+
+export interface Notifier {
+  // Short description used in logs, e.g. 'email (a@b.com)'
+  name: string;
+  notify(message: AlertMessage): Promise<void>;
+}
+
+export type ChannelConfig =
+  | { type: 'email'; to: string[]; from?: string }
+  | { type: 'webhook'; url: string; headers?: { [name: string]: string } }
+  | { type: 'log'; path: string }
+  | { type: 'console' };
+
+const DEFAULT_EMAIL_FROM = 'onboarding@resend.dev';
+
+let resend: Resend | null = null;
+
+// Created on first use so runs without email channels do not need RESEND_KEY
+const getResend = (): Resend => {
+  if (!resend) {
+    resend = new Resend(process.env.RESEND_KEY);
+  }
+  return resend;
+};
+
+export function createNotifier(config: ChannelConfig): Notifier {
+  switch (config.type) {
+    case 'email':
+      return createEmailNotifier(config.to, config.from);
+    case 'webhook':
+      return createWebhookNotifier(config.url, config.headers);
+    case 'log':
+      return createLogFileNotifier(config.path);
+    case 'console':
+      return createConsoleNotifier();
+  }
+}
+
+/**
+ * Send alerts as email through Resend (needs RESEND_KEY), as HTML with the plain text as fallback
+ */
+export function createEmailNotifier(to: string[], from: string = DEFAULT_EMAIL_FROM): Notifier {
+  return {
+    name: `email (${to.join(', ')})`,
+    async notify(message) {
+      const response = await getResend().emails.send({
+        from,
+        to,
+        subject: message.subject,
+        text: message.text,
+        ...(message.html ? { html: message.html } : {})
+      });
+      if (response.error) {
+        throw new Error(`Resend rejected the email: ${response.error.message}`);
+      }
+      console.log('Email sent:', response.data);
+    }
+  };
+}
+
+/**
+ * POST alerts as JSON to an incoming webhook: { subject, text, ...data }
+ */
+export function createWebhookNotifier(url: string, headers: { [name: string]: string } = {}): Notifier {
+  return {
+    name: `webhook (${new URL(url).host})`,
+    async notify(message) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify({ subject: message.subject, text: message.text, ...message.data })
+      });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status} ${response.statusText}`);
+      }
+    }
+  };
+}
+
+/**
+ * Append alerts to a log file, one JSON object per line
+ */
+export function createLogFileNotifier(path: string): Notifier {
+  return {
+    name: `log (${path})`,
+    async notify({ html, ...message }) {
+      // The HTML body only repeats the text, so keep it out of the log
+      appendFileSync(path, JSON.stringify({ time: new Date().toISOString(), ...message }) + '\n');
+    }
+  };
+}
+
+export function createConsoleNotifier(): Notifier {
+  return {
+    name: 'console',
+    async notify(message) {
+      console.warn(`ALERT: ${message.subject}\n${message.text}`);
+    }
+  };
+}
+
+/**
+ * Read alert channels from the environment: ALERT_EMAIL_TO (comma-separated),
+ * ALERT_EMAIL_FROM, ALERT_WEBHOOK_URL and ALERT_LOG_FILE. Falls back to the console.
+ */
+export function channelsFromEnv(env: NodeJS.ProcessEnv = process.env): ChannelConfig[] {
+  const channels: ChannelConfig[] = [];
+
+  if (env.ALERT_EMAIL_TO) {
+    const to = env.ALERT_EMAIL_TO.split(',').map(address => address.trim()).filter(Boolean);
+    channels.push({ type: 'email', to, from: env.ALERT_EMAIL_FROM });
+  }
+  if (env.ALERT_WEBHOOK_URL) {
+    channels.push({ type: 'webhook', url: env.ALERT_WEBHOOK_URL });
+  }
+  if (env.ALERT_LOG_FILE) {
+    channels.push({ type: 'log', path: env.ALERT_LOG_FILE });
+  }
+
+  return channels.length > 0 ? channels : [{ type: 'console' }];
+}
+
+/**
+ * Send a message through every notifier. A failing channel is logged and does not stop the others.
+ * @returns Number of channels the message was delivered through
+ */
+export async function notifyAll(notifiers: Notifier[], message: AlertMessage): Promise<number> {
+  const delivered = await Promise.all(notifiers.map(async notifier => {
+    try {
+      await notifier.notify(message);
+      return true;
+    } catch (error) {
+      console.error(`Error sending alert via ${notifier.name}:`, error);
+      return false;
+    }
+  }));
+  return delivered.filter(Boolean).length;
+}
@@ -0,0 +1,157 @@
+import { Console } from 'console';
+import { formatMoney, Money, moneyToDecimal } from './money';
+import { AirportPair, DatePrice, FlightData, FlightPriceResult, JourneyPrices } from './types';
+
+export type OutputFormat = 'table' | 'json' | 'ndjson' | 'csv';
+
+export const OUTPUT_FORMATS: OutputFormat[] = ['table', 'json', 'ndjson', 'csv'];
+
+// What was searched, written next to the results so each row stands on its own
+export interface SearchInfo {
+  // As given, e.g. 'LON' when several airports were searched; rows carry the airports of their own pair
+  origin: string;
+  destination: string;
+  date: string;
+  // Last date of a sweep; flights of a sweep come from several searches, so they get no date
+  dateTo?: string;
+  returnDate?: string;
+  // Fare bundle the prices are in, when one was targeted
+  bundle?: string;
+}
+
+// One flat row per flight or date price, shared by the csv and ndjson formats
+export interface ResultRow {
+  leg: 'outbound' | 'inbound';
+  kind: 'flight' | 'date';
+  origin: string;
+  destination: string;
+  // 'YYYY-MM-DD', empty for flights of a sweep
+  date: string;
+  weekday: string;
+  flightNumber: string;
+  departureTime: string;
+  arrivalTime: string;
+  duration: string;
+  // In major units, e.g. 29.99; null when there is no fare
+  price: number | null;
+  currency: string;
+  // Fare bundle the price is for, empty for the headline fare
+  bundle: string;
+  // True for the searched date in the date price rows
+  selected: boolean | null;
+}
+
+const CSV_COLUMNS: (keyof ResultRow)[] = [
+  'leg', 'kind', 'origin', 'destination', 'date', 'weekday', 'flightNumber',
+  'departureTime', 'arrivalTime', 'duration', 'price', 'currency', 'bundle', 'selected'
+];
+
+/**
+ * Write a search result to a stream in the chosen format.
+ * json writes the result as one document, ndjson one row per line,
+ * csv one row per line after a header, and table the human-readable tables.
+ */
+export function writeResult(result: FlightPriceResult, search: SearchInfo, format: OutputFormat, stream: NodeJS.WritableStream = process.stdout): void {
+  switch (format) {
+    case 'json':
+      stream.write(JSON.stringify({ search, ...result }, null, 2) + '\n');
+      return;
+
+    case 'ndjson':
+      for (const row of resultRows(result, search)) {
+        stream.write(JSON.stringify(row) + '\n');
+      }
+      return;
+
+    case 'csv':
+      stream.write(CSV_COLUMNS.join(',') + '\n');
+      for (const row of resultRows(result, search)) {
+        stream.write(CSV_COLUMNS.map(column => csvCell(row[column])).join(',') + '\n');
+      }
+      return;
+
+    case 'table': {
+      const out = new Console(stream);
+      const legs: [string, JourneyPrices][] = [['', result]];
+      if (result.inbound) {
+        legs.push(['Return ', result.inbound]);
+      }
+      for (const [label, leg] of legs) {
+        out.log(`\n${label}Flight Prices:`);
+        // The matched selectors are only kept in the json output
+        out.table(leg.flights.map(({ matched, bundles, pair, ...flight }) => ({
+          ...routeColumn(pair),
+          ...flight,
+          price: displayPrice(flight.price),
+          ...(bundles ? { bundles: bundles.map(bundle => `${bundle.name} ${displayPrice(bundle.price)}`).join(', ') } : {})
+        })));
+        const dates = search.dateTo ? `${search.date} to ${search.dateTo}` : 'nearby dates';
+        const prices = search.bundle ? `${search.bundle} prices` : label ? 'prices' : 'Prices';
+        out.log(`\n${label}${prices} for ${dates}:`);
+        out.table(leg.datePrices.map(({ matched, pair, ...datePrice }) => ({ ...routeColumn(pair), ...datePrice, price: displayPrice(datePrice.price) })));
+      }
+      return;
+    }
+  }
+}
+
+/**
+ * Flatten a search result into rows, outbound leg first
+ */
+export function resultRows(result: FlightPriceResult, search: SearchInfo): ResultRow[] {
+  const rows = legRows(result, 'outbound', search.origin, search.destination, search.dateTo ? '' : search.date, search.bundle || '');
+  if (result.inbound) {
+    rows.push(...legRows(result.inbound, 'inbound', search.destination, search.origin, search.returnDate || '', search.bundle || ''));
+  }
+  return rows;
+}
+
+function legRows(journey: JourneyPrices, leg: ResultRow['leg'], origin: string, destination: string, flightDate: string, bundle: string): ResultRow[] {
+  const flightRow = (flight: FlightData): ResultRow => ({
+    leg,
+    kind: 'flight',
+    origin: flight.pair ? flight.pair.origin : origin,
+    destination: flight.pair ? flight.pair.destination : destination,
+    date: flightDate,
+    weekday: '',
+    flightNumber: flight.flightNumber,
+    departureTime: flight.departureTime,
+    arrivalTime: flight.arrivalTime,
+    duration: flight.duration,
+    ...priceColumns(flight.price),
+    bundle,
+    selected: null
+  });
+
+  const dateRow = (datePrice: DatePrice): ResultRow => ({
+    leg,
+    kind: 'date',
+    origin: datePrice.pair ? datePrice.pair.origin : origin,
+    destination: datePrice.pair ? datePrice.pair.destination : destination,
+    date: datePrice.isoDate,
+    weekday: datePrice.weekday,
+    flightNumber: '',
+    departureTime: '',
+    arrivalTime: '',
+    duration: '',
+    ...priceColumns(datePrice.price),
+    bundle,
+    selected: datePrice.isSelected
+  });
+
+  return [...journey.flights.map(flightRow), ...journey.datePrices.map(dateRow)];
+}
+
+// Results of several airport pairs are ranked together, so each row says which pair it is from
+const routeColumn = (pair?: AirportPair): { route?: string } => pair ? { route: `${pair.origin}-${pair.destination}` } : {};
+
+const priceColumns = (price: Money | null): Pick<ResultRow, 'price' | 'currency'> =>
+  price ? { price: moneyToDecimal(price), currency: price.currency } : { price: null, currency: '' };
+
+const displayPrice = (price: Money | null): string => price ? formatMoney(price) : 'N/A';
+
+// Quote cells that would otherwise break the row, as spreadsheets expect
+const csvCell = (value: ResultRow[keyof ResultRow]): string => {
+  const text = value === null ? '' : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
@@ -0,0 +1,203 @@
+import { appendFileSync, existsSync, readFileSync, writeFileSync } from 'fs';
+import { createClient } from '@supabase/supabase-js';
+import { Money, moneyFromDecimal, moneyToDecimal } from './money';
+
+export interface PriceRecord {
+  origin: string;
+  destination: string;
+  // Flight date in 'YYYY-MM-DD' format
+  date: string;
+  weekday: string;
+  price: Money | null;
+  // True when the price was read for the searched date rather than a neighbouring carousel day
+  exactDate: boolean;
+  // Fare bundle the price is for, e.g. 'Regular'; absent for the headline fare
+  bundle?: string;
+}
+
+export interface StoredPrice extends PriceRecord {
+  createdAt: string;
+}
+
+export interface PriceStore {
+  insert(record: PriceRecord): Promise<void>;
+  /**
+   * Every stored price for a route and flight date, oldest first
+   * @param bundle Fare bundle to read prices of; headline fares when omitted
+   */
+  history(origin: string, destination: string, date: string, bundle?: string): Promise<StoredPrice[]>;
+}
+
+export type PriceStoreKind = 'supabase' | 'json' | 'memory';
+
+export interface PriceStoreConfig {
+  kind: PriceStoreKind;
+  supabaseUrl?: string;
+  supabaseKey?: string;
+  // File used by the json store
+  path?: string;
+}
+
+const DEFAULT_SUPABASE_URL = 'https://wtywaiqrvdnlhsfharbg.supabase.co';
+const DEFAULT_JSON_PATH = 'flight-prices.json';
+
+/**
+ * Read the price store configuration from the environment:
+ * PRICE_STORE (supabase, json or memory; default supabase), SUPABASE_URL, SUPABASE_KEY and PRICE_STORE_PATH
+ */
+export function priceStoreConfigFromEnv(env: NodeJS.ProcessEnv = process.env): PriceStoreConfig {
+  const kind = (env.PRICE_STORE || 'supabase') as PriceStoreKind;
+  if (!['supabase', 'json', 'memory'].includes(kind)) {
+    throw new Error(`Unknown PRICE_STORE "${kind}", expected supabase, json or memory`);
+  }
+
+  return {
+    kind,
+    supabaseUrl: env.SUPABASE_URL || DEFAULT_SUPABASE_URL,
+    supabaseKey: env.SUPABASE_KEY || '',
+    path: env.PRICE_STORE_PATH || DEFAULT_JSON_PATH
+  };
+}
+
+export function createPriceStore(config: PriceStoreConfig): PriceStore {
+  switch (config.kind) {
+    case 'supabase':
+      return createSupabaseStore(config.supabaseUrl || DEFAULT_SUPABASE_URL, config.supabaseKey || '');
+    case 'json':
+      return createJsonFileStore(config.path || DEFAULT_JSON_PATH);
+    case 'memory':
+      return createMemoryStore();
+  }
+}
+
+// A row of the FlightPrices table; prices are in major units
+interface FlightPriceRow {
+  date: string;
+  weekday: string;
+  price: number | null;
+  currency: string | null;
+  exactDate: boolean;
+  origin: string;
+  destination: string;
+  bundle: string | null;
+  created_at: string;
+}
+
+// Adds the bundle column to FlightPrices tables created before bundle prices were stored
+const BUNDLE_MIGRATION = 'supabase/add-bundle-column.sql';
+
+/**
+ * Store prices in the FlightPrices table of a Supabase project.
+ * Prices are stored in major units next to their currency code,
+ * and bundle prices with the bundle name in a nullable bundle column;
+ * tables created before that need BUNDLE_MIGRATION run once.
+ */
+export function createSupabaseStore(url: string, key: string): PriceStore {
+  const supabase = createClient(url, key);
+  const columns = 'date, weekday, price, currency, exactDate, origin, destination, bundle, created_at';
+
+  const toStoredPrice = (row: FlightPriceRow): StoredPrice => ({
+    origin: row.origin,
+    destination: row.destination,
+    date: row.date,
+    weekday: row.weekday,
+    // Older rows may hold a symbol such as 'Ft' instead of an ISO code
+    price: row.price !== null && row.currency ? moneyFromDecimal(row.price, row.currency) : null,
+    exactDate: row.exactDate,
+    ...(row.bundle ? { bundle: row.bundle } : {}),
+    createdAt: row.created_at
+  });
+
+  // Point at the migration when the table has no bundle column yet, rather than failing on every insert unexplained
+  const explain = (error: { message: string }): Error =>
+    new Error(/bundle/.test(error.message) ? `${error.message}; run ${BUNDLE_MIGRATION} on the project to add the bundle column` : error.message);
+
+  // Headline fares were stored before bundles were, so they are the rows without one
+  const selectPrices = (origin: string, destination: string, date: string, bundle: string | undefined) => {
+    const query = supabase
+      .from('FlightPrices')
+      .select(columns)
+      .eq('date', date)
+      .eq('origin', origin)
+      .eq('destination', destination);
+    return (bundle ? query.eq('bundle', bundle) : query.is('bundle', null)).order('created_at', { ascending: true });
+  };
+
+  return {
+    async insert(record) {
+      const { error } = await supabase.from('FlightPrices').insert({
+        date: record.date,
+        weekday: record.weekday,
+        // Stored in major units so existing rows and new ones stay comparable
+        price: record.price ? moneyToDecimal(record.price) : null,
+        currency: record.price ? record.price.currency : null,
+        exactDate: record.exactDate,
+        origin: record.origin,
+        destination: record.destination,
+        bundle: record.bundle || null
+      });
+
+      if (error) {
+        throw explain(error);
+      }
+    },
+
+    async history(origin, destination, date, bundle) {
+      const { data, error } = await selectPrices(origin, destination, date, bundle);
+
+      if (error) {
+        throw explain(error);
+      }
+      return ((data || []) as FlightPriceRow[]).map(toStoredPrice);
+    }
+  };
+}
+
+/**
+ * Keep prices in memory only; useful for tests and dry runs
+ */
+export function createMemoryStore(initial: StoredPrice[] = []): PriceStore {
+  const rows = [...initial];
+  return createArrayStore(() => rows, () => undefined);
+}
+
+/**
+ * Store prices in a local file, one JSON object per line, for running without a database.
+ * Each insert appends its line, so inserting does not get slower as the history grows.
+ * Files written as a single JSON array by earlier versions are rewritten as lines on first use.
+ */
+export function createJsonFileStore(path: string): PriceStore {
+  let rows: StoredPrice[] | null = null;
+
+  const load = (): StoredPrice[] => {
+    if (!rows) {
+      const text = existsSync(path) ? readFileSync(path, 'utf8') : '';
+      if (/^\s*\[/.test(text)) {
+        rows = JSON.parse(text) as StoredPrice[];
+        writeFileSync(path, rows.map(row => JSON.stringify(row) + '\n').join(''));
+      } else {
+        rows = text.split('\n').filter(line => line.trim()).map(line => JSON.parse(line) as StoredPrice);
+      }
+    }
+    return rows;
+  };
+
+  return createArrayStore(load, row => appendFileSync(path, JSON.stringify(row) + '\n'));
+}
+
+// Rows are kept in memory; save is called with each inserted row
+function createArrayStore(rows: () => StoredPrice[], save: (row: StoredPrice) => void): PriceStore {
+  // Rows are appended in insertion order, so matches come out oldest first
+  const history = async (origin: string, destination: string, date: string, bundle?: string) =>
+    rows().filter(row => row.origin === origin && row.destination === destination && row.date === date && row.bundle === bundle);
+
+  return {
+    async insert(record) {
+      const row: StoredPrice = { ...record, createdAt: new Date().toISOString() };
+      rows().push(row);
+      save(row);
+    },
+
+    history
+  };
+}
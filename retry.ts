@@ -0,0 +1,43 @@
+export interface RetryPolicy {
+  // Total tries, including the first one
+  attempts: number;
+  // Wait before the first retry; doubled for every retry after that
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  attempts: 3,
+  baseDelayMs: 5000,
+  maxDelayMs: 60000
+};
+
+/**
+ * Run a task, retrying with exponential backoff while it fails with a retryable error
+ * @param shouldRetry Whether an error is worth another try
+ * @param label Name of the task in log messages
+ * @returns The result of the first successful try
+ * @throws The last error, once it is not retryable or the attempts are used up
+ */
+export async function withRetry<T>(
+  task: (attempt: number) => Promise<T>,
+  shouldRetry: (error: unknown) => boolean,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  label: string = 'task'
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= policy.attempts || !shouldRetry(error)) {
+        throw error;
+      }
+      // Up to a fifth extra, so parallel searches that failed together do not retry together
+      const backoff = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+      const delay = Math.round(backoff * (1 + Math.random() * 0.2));
+      console.warn(`${label} failed (attempt ${attempt} of ${policy.attempts}), retrying in ${Math.round(delay / 1000)}s:`,
+        error instanceof Error ? error.message : error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -1,3 +1,3 @@
 @echo off
-cd /d "C:\Projects\Ryanair-Puppeteer\dist"
+cd /d "%~dp0dist"
 call node index.js %*
\ No newline at end of file
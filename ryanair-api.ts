@@ -0,0 +1,204 @@
+import { HTTPResponse, Page } from 'puppeteer';
+import { MONTHS, WEEKDAYS } from './dates';
+import { toFareBundle } from './fare-bundles';
+import { moneyFromDecimal } from './money';
+import { DatePrice, FlightData, JourneyPrices } from './types';
+import { PassengerMix } from './watchlist';
+
+export const DEFAULT_BASE_URL = 'https://www.ryanair.com';
+export const SELECT_PAGE_PATH = '/gb/en/trip/flights/select';
+
+// The flight selection page loads its fares from this endpoint, e.g. /api/booking/v4/en-gb/availability?...
+const AVAILABILITY_URL_PATTERN = /\/api\/booking\/v\d+\/[^/]+\/availability/;
+
+/**
+ * Site that searches are made on: RYANAIR_BASE_URL if set, e.g. the local mock server, otherwise the real site
+ */
+export const ryanairBaseUrl = (env: NodeJS.ProcessEnv = process.env): string =>
+  (env.RYANAIR_BASE_URL || DEFAULT_BASE_URL).replace(/\/+$/, '');
+
+/**
+ * Link to the flight selection page for a search, as opened by the scraper and linked from alerts
+ * @param returnDate Date of the return flight, or undefined for a one-way search
+ * @param baseUrl Site to link to, e.g. 'http://localhost:8080'; defaults to RYANAIR_BASE_URL or the real site
+ */
+export function buildSelectUrl(
+  origin: string,
+  destination: string,
+  date: string,
+  passengers: PassengerMix,
+  returnDate?: string,
+  baseUrl: string = ryanairBaseUrl()
+): string {
+  const { adults, teens, children, infants } = passengers;
+  const isReturn = !!returnDate;
+  const dateIn = returnDate || '';
+
+  return `${baseUrl.replace(/\/+$/, '')}${SELECT_PAGE_PATH}?adults=${adults}&teens=${teens}&children=${children}&infants=${infants}&dateOut=${date}&dateIn=${dateIn}&isConnectedFlight=false&discount=0&promoCode=&isReturn=${isReturn}&originIata=${origin}&destinationIata=${destination}&tpAdults=${adults}&tpTeens=${teens}&tpChildren=${children}&tpInfants=${infants}&tpStartDate=${date}&tpEndDate=${dateIn}&tpDiscount=0&tpPromoCode=&tpOriginIata=${origin}&tpDestinationIata=${destination}`;
+}
+
+interface AvailabilityFare {
+  type: string;
+  amount: number;
+  count: number;
+}
+
+interface AvailabilityFareGroup {
+  fares: AvailabilityFare[];
+}
+
+interface AvailabilityFlight {
+  flightNumber: string;
+  time: string[];
+  duration: string;
+  // The headline fare; missing when the flight is sold out
+  regularFare?: AvailabilityFareGroup;
+  leisureFare?: AvailabilityFareGroup;
+  businessFare?: AvailabilityFareGroup;
+}
+
+// Bundle each fare group of a flight is sold as; Regular is only offered on the page
+const FARE_GROUP_BUNDLES: ['regularFare' | 'leisureFare' | 'businessFare', string][] = [
+  ['regularFare', 'Basic'],
+  ['leisureFare', 'Plus'],
+  ['businessFare', 'Flexi Plus']
+];
+
+/**
+ * Whether the availability API prices a bundle; Regular is only sold on the page
+ * @param bundle Standard bundle name, e.g. 'Regular'
+ */
+export const availabilityHasBundle = (bundle: string): boolean => FARE_GROUP_BUNDLES.some(([, name]) => name === bundle);
+
+interface AvailabilityDate {
+  dateOut: string;
+  flights: AvailabilityFlight[];
+}
+
+interface AvailabilityTrip {
+  origin: string;
+  destination: string;
+  dates: AvailabilityDate[];
+}
+
+export interface AvailabilityResponse {
+  currency: string;
+  trips: AvailabilityTrip[];
+}
+
+export interface AvailabilityCapture {
+  // Most recent availability response seen on the page, if any
+  latest(): AvailabilityResponse | undefined;
+  stop(): void;
+}
+
+/**
+ * Start listening for availability API responses on a page.
+ * Must be called before navigating so the initial request is not missed.
+ * @param page Page that will load the flight selection page
+ * @returns Handle to read the captured response from
+ */
+export function captureAvailability(page: Page): AvailabilityCapture {
+  let latest: AvailabilityResponse | undefined;
+
+  const onResponse = async (response: HTTPResponse) => {
+    if (!AVAILABILITY_URL_PATTERN.test(response.url()) || !response.ok()) {
+      return;
+    }
+
+    try {
+      const body = await response.json();
+      if (body && Array.isArray(body.trips)) {
+        latest = body as AvailabilityResponse;
+        console.log(`Captured availability response with ${body.trips.length} trip(s)`);
+      }
+    } catch (error) {
+      console.log('Could not read availability response:', error);
+    }
+  };
+
+  page.on('response', onResponse);
+
+  return {
+    latest: () => latest,
+    stop: () => {
+      page.off('response', onResponse);
+    }
+  };
+}
+
+/**
+ * Build flights and date prices for one leg from a captured availability response
+ * @param availability Captured availability response
+ * @param origin Origin airport code of this leg
+ * @param destination Destination airport code of this leg
+ * @param date Requested date of this leg in 'YYYY-MM-DD' format
+ * @returns Flights and nearby date prices, or null if the response has no data for this leg
+ */
+export function journeyFromAvailability(
+  availability: AvailabilityResponse,
+  origin: string,
+  destination: string,
+  date: string
+): JourneyPrices | null {
+  const trip = availability.trips.find(trip => trip.origin === origin && trip.destination === destination);
+  if (!trip || !trip.dates || trip.dates.length === 0) {
+    return null;
+  }
+
+  const currency = availability.currency;
+  const flights: FlightData[] = [];
+  const datePrices: DatePrice[] = [];
+
+  for (const tripDate of trip.dates) {
+    const isoDate = tripDate.dateOut.substring(0, 10);
+    const isSelected = isoDate === date;
+
+    // The carousel shows the cheapest adult fare of the day
+    const fares = tripDate.flights
+      .map(flight => ({ flight, amount: getAdultFare(flight.regularFare) }))
+      .filter((item): item is { flight: AvailabilityFlight; amount: number } => item.amount !== null);
+    const cheapest = fares.length > 0 ? Math.min(...fares.map(item => item.amount)) : null;
+
+    const [year, month, day] = isoDate.split('-').map(Number);
+    const weekday = WEEKDAYS[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+
+    datePrices.push({
+      date: `${String(day).padStart(2, '0')} ${MONTHS[month - 1]}`,
+      isoDate,
+      weekday,
+      price: cheapest !== null ? moneyFromDecimal(cheapest, currency) : null,
+      isSelected
+    });
+
+    if (!isSelected) {
+      continue;
+    }
+
+    for (const { flight, amount } of fares) {
+      const bundles = FARE_GROUP_BUNDLES
+        .map(([group, name]) => ({ name, amount: getAdultFare(flight[group]) }))
+        .filter(bundle => bundle.amount !== null)
+        .map(bundle => toFareBundle(bundle.name, moneyFromDecimal(bundle.amount!, currency)));
+      flights.push({
+        flightNumber: flight.flightNumber,
+        departureTime: flight.time[0]?.substring(11, 16) || 'N/A',
+        arrivalTime: flight.time[1]?.substring(11, 16) || 'N/A',
+        price: moneyFromDecimal(amount, currency),
+        duration: flight.duration || 'N/A',
+        fromAirport: origin,
+        toAirport: destination,
+        bundles
+      });
+    }
+  }
+
+  return { flights, datePrices };
+}
+
+// Sold out flights have no regular fare, and flights not sold in a bundle have no fares for it
+const getAdultFare = (group: AvailabilityFareGroup | undefined): number | null => {
+  const fares = group?.fares || [];
+  const fare = fares.find(fare => fare.type === 'ADT') || fares[0];
+  return fare ? fare.amount : null;
+};
@@ -1,4 +1,19 @@
-import puppeteer, { Page } from 'puppeteer';
+import { readFileSync } from 'fs';
+import { Page } from 'puppeteer';
+import { recordConsole, startArtifactRun } from './artifacts';
+import { createBrowserPool, DEFAULT_LAUNCH_OPTIONS } from './browser-pool';
+import { addDays, toIsoDate } from './dates';
+import { buildSelectUrl } from './ryanair-api';
+import {
+  anySelector,
+  CHAIN_GROUPS,
+  countMatches,
+  extractRecords,
+  loadSelectorRegistry,
+  RECORD_GROUPS,
+  RecordSelectors,
+  SelectorRegistry
+} from './selectors';
 
 // Add waitForTimeout to the Page interface
 declare module 'puppeteer' {
@@ -7,242 +22,203 @@ declare module 'puppeteer' {
   }
 }
 
+// Check a live flight selection page, or a page saved earlier, e.g. the page.html of a failure bundle
+export type PageSource = { url: string } | { snapshot: string };
+
+// Matches of one selector of a chain
+export interface SelectorHealth {
+  group: string;
+  // 'container', a field name, or '' for the single chains
+  field: string;
+  selector: string;
+  // Elements found for containers and single chains, records with text for fields
+  matches: number;
+}
+
+// How one field, container or single chain fared across the records of its group
+export interface FieldHealth {
+  group: string;
+  field: string;
+  records: number;
+  // Records in which the field has text other than 'N/A'
+  filled: number;
+  required: boolean;
+  status: 'ok' | 'partly empty' | 'empty' | 'broken';
+}
+
+export interface HealthReport {
+  version: string;
+  source: string;
+  selectors: SelectorHealth[];
+  fields: FieldHealth[];
+  // One line per required selector that matched nothing; the check failed if there are any
+  broken: string[];
+}
+
+// Longer than the scraper waits, so a slow page is not mistaken for broken selectors
+const PRICES_TIMEOUT_MS = 45000;
+
 /**
- * Script to analyze Ryanair page structure for better selectors
+ * Selector health check: run every selector of the registry against the flight selection page
+ * and report how often each one matched, which fields came back empty or 'N/A',
+ * and which required selectors (the registry's mustMatch) matched nothing.
+ * A failed check of a live page saves a failure bundle, whose page.html can be checked again offline.
+ * @param source Live page URL, or the path of a saved HTML snapshot
+ * @param selectors Registry to check; loaded from SELECTORS_FILE or selectors.json when omitted
  */
-async function analyzeRyanairStructure() {
-  const url = 'https://www.ryanair.com/gb/en/trip/flights/select?adults=2&teens=2&children=0&infants=0&dateOut=2025-08-22&dateIn=&isConnectedFlight=false&discount=0&promoCode=&isReturn=false&originIata=BUD&destinationIata=MAN';
-  
-  const browser = await puppeteer.launch({
-    headless: false, // Non-headless for debugging
-    defaultViewport: { width: 1366, height: 768 }
+export async function analyzeRyanairStructure(source: PageSource, selectors: SelectorRegistry = loadSelectorRegistry()): Promise<HealthReport> {
+  const pool = createBrowserPool({
+    concurrency: 1,
+    launchOptions: {
+      ...DEFAULT_LAUNCH_OPTIONS,
+      headless: process.env.HEADLESS === 'true' || 'snapshot' in source,
+      defaultViewport: { width: 1366, height: 768 }
+    }
   });
-  
+
+  try {
+    return await pool.withPage(async page => {
+      const consoleLog = recordConsole(page);
+      try {
+        if ('snapshot' in source) {
+          // The saved page's scripts would only try to render it again
+          await page.setJavaScriptEnabled(false);
+          console.log(`Loading snapshot ${source.snapshot}...`);
+          await page.setContent(readFileSync(source.snapshot, 'utf8'), { waitUntil: 'domcontentloaded' });
+        } else {
+          await loadLivePage(page, source.url, selectors);
+        }
+
+        const report = await checkSelectors(page, selectors, 'snapshot' in source ? source.snapshot : source.url);
+
+        if (report.broken.length > 0 && 'url' in source) {
+          await startArtifactRun('health-check').saveBundle(page, { url: source.url, params: {} }, consoleLog, report.broken);
+        }
+        return report;
+      } finally {
+        consoleLog.stop();
+      }
+    });
+  } finally {
+    await pool.close();
+  }
+}
+
+async function loadLivePage(page: Page, url: string, selectors: SelectorRegistry): Promise<void> {
+  // Set user agent
+  await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36');
+
+  // Navigate to the URL
+  console.log('Navigating to Ryanair...');
+  await page.goto(url, { waitUntil: 'networkidle2', timeout: 60000 });
+
+  // Accept cookies if dialog appears
+  try {
+    const acceptButton = await page.waitForSelector(anySelector(selectors.cookieAccept), { timeout: 5000 });
+    await acceptButton!.click();
+    console.log('Accepted cookies');
+  } catch (error) {
+    console.log('No cookie dialog found or already accepted');
+  }
+
+  // Missing prices are what the check reports, so a timeout here is not an error
   try {
-    console.log('Opening browser...');
-    const page = await browser.newPage();
-    
-    // Set user agent
-    await page.setUserAgent('Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/121.0.0.0 Safari/537.36');
-    
-    // Navigate to the URL
-    console.log('Navigating to Ryanair...');
-    await page.goto(url, { waitUntil: 'networkidle2', timeout: 60000 });
-    
-    // Accept cookies if dialog appears
-    try {
-      const cookieSelector = 'button[data-ref="cookie.accept-all"]';
-      await page.waitForSelector(cookieSelector, { timeout: 5000 });
-      await page.click(cookieSelector);
-      console.log('Accepted cookies');
-    } catch (error) {
-      console.log('No cookie dialog found or already accepted');
+    await page.waitForSelector(anySelector(selectors.dateItems.fields.price.chain), { timeout: PRICES_TIMEOUT_MS });
+  } catch (error) {
+    console.log(`Prices did not appear within ${PRICES_TIMEOUT_MS / 1000}s, checking the page as it is`);
+  }
+
+  // Give the flight cards a moment to render after the carousel
+  await new Promise(resolve => setTimeout(resolve, 3000));
+}
+
+async function checkSelectors(page: Page, selectors: SelectorRegistry, source: string): Promise<HealthReport> {
+  const report: HealthReport = { version: selectors.version, source, selectors: [], fields: [], broken: [] };
+  const body = (await page.$('body'))!;
+
+  for (const group of CHAIN_GROUPS) {
+    const required = group in selectors.mustMatch;
+    let found = false;
+    for (const selector of selectors[group]) {
+      const matches = (await page.$$(selector)).length;
+      report.selectors.push({ group, field: '', selector, matches });
+      found = found || matches > 0;
+    }
+    report.fields.push({ group, field: '', records: 1, filled: found ? 1 : 0, required, status: fieldStatus(found ? 1 : 0, 1, required) });
+    if (required && !found) {
+      report.broken.push(`${group}: none of ${selectors[group].join(' | ')} matched`);
     }
-    
-    // Wait for content to load
-    await new Promise(resolve => setTimeout(resolve, 5000));
-    
-    // Take a screenshot for debugging
-    await page.screenshot({ path: 'ryanair-debug.png' });
-    console.log('Saved screenshot as ryanair-debug.png');
-    
-    // Extract date items
-    console.log('\n==== DATE ITEMS ====');
-    const dateItems = await page.evaluate(() => {
-      const items = document.querySelectorAll('.date-item');
-      console.log(`Found ${items.length} date items`);
-      
-      return Array.from(items).map(item => {
-        // Get HTML structure
-        const html = item.outerHTML.substring(0, 300);
-        
-        // Get text content
-        const text = item.textContent?.trim();
-        
-        // Get class names
-        const className = item.className;
-        
-        // Check if selected
-        const isSelected = item.classList.contains('date-item--selected');
-        
-        // Get price
-        const priceEl = item.querySelector('.date-item__price');
-        const price = priceEl ? priceEl.textContent?.trim() : 'No price found';
-        
-        // Get day
-        const dayEl = item.querySelector('.date-item__day-of-month');
-        const day = dayEl ? dayEl.textContent?.trim() : 'No day found';
-        
-        // Get month
-        const monthEl = item.querySelector('.date-item__month');
-        const month = monthEl ? monthEl.textContent?.trim() : 'No month found';
-        
-        // Get weekday
-        const weekdayEl = item.querySelector('.date-item__day-of-week');
-        const weekday = weekdayEl ? weekdayEl.textContent?.trim() : 'No weekday found';
-        
-        return { html, text, className, isSelected, price, day, month, weekday };
+  }
+
+  // Nested groups are checked across the whole page, e.g. every fare card of every flight card
+  const recordGroups: [string, RecordSelectors][] = [];
+  for (const group of RECORD_GROUPS) {
+    recordGroups.push([group, selectors[group]]);
+    for (const [name, nested] of Object.entries(selectors[group].groups || {})) {
+      recordGroups.push([`${group}.${name}`, nested]);
+    }
+  }
+
+  for (const [group, groupSelectors] of recordGroups) {
+    const required = selectors.mustMatch[group] || [];
+    const records = await body.evaluate(extractRecords, groupSelectors);
+    const container = records.length > 0 ? records[0].matched.container || null : null;
+    const counts = await body.evaluate(countMatches, groupSelectors, container);
+
+    if (groupSelectors.container) {
+      for (const selector of groupSelectors.container) {
+        report.selectors.push({ group, field: 'container', selector, matches: counts.container[selector] });
+      }
+      const isRequired = required.includes('container');
+      report.fields.push({
+        group,
+        field: 'container',
+        records: records.length,
+        filled: records.length,
+        required: isRequired,
+        status: records.length > 0 ? 'ok' : isRequired ? 'broken' : 'empty'
       });
-    });
-    
-    console.log(`Found ${dateItems.length} date items`);
-    if (dateItems.length > 0) {
-      console.log('First date item:', JSON.stringify(dateItems[0], null, 2));
-      
-      // Log selected date
-      const selectedDate = dateItems.find(item => item.isSelected);
-      if (selectedDate) {
-        console.log('Selected date:', JSON.stringify(selectedDate, null, 2));
+      if (isRequired && records.length === 0) {
+        report.broken.push(`${group}: no records found with ${groupSelectors.container.join(' | ')}`);
       }
     }
-    
-    // Extract flight cards
-    console.log('\n==== FLIGHT CARDS ====');
-    const flightCards = await page.evaluate(() => {
-      // Try various selectors for flight cards
-      const cardSelectors = [
-        '[data-e2e="flight-card"]',
-        '.flight-card',
-        '.card',
-        '.journey-container',
-        '.flights-card',
-        '[data-ref="flight-card"]',
-        '.flights-table__row',
-        '.flight-header'
-      ];
-      
-      // Try each selector
-      let cards: Element[] = [];
-      let foundSelector = '';
-      
-      for (const selector of cardSelectors) {
-        const elements = document.querySelectorAll(selector);
-        if (elements.length > 0) {
-          cards = Array.from(elements);
-          foundSelector = selector;
-          break;
-        }
+
+    for (const [field, fieldSelectors] of Object.entries(groupSelectors.fields)) {
+      for (const selector of fieldSelectors.chain) {
+        report.selectors.push({ group, field, selector, matches: counts.fields[field][selector] });
       }
-      
-      console.log(`Found ${cards.length} flight cards using selector: ${foundSelector}`);
-      
-      if (cards.length === 0) {
-        // Look for any element containing flight-related text
-        const allElements = document.querySelectorAll('*');
-        const flightElements = Array.from(allElements).filter(el => {
-          const text = el.textContent?.toLowerCase() || '';
-          return (text.includes('flight') || text.includes('depart') || text.includes('arrive')) && 
-                 el.tagName !== 'BODY' && el.tagName !== 'HTML';
-        });
-        
-        console.log(`Found ${flightElements.length} elements with flight-related text`);
-        
-        if (flightElements.length > 0) {
-          // Return info about the first 3 elements
-          return flightElements.slice(0, 3).map(el => {
-            return {
-              tagName: el.tagName,
-              className: el.className,
-              id: el.id,
-              html: el.outerHTML.substring(0, 300),
-              text: el.textContent?.trim(),
-              rect: JSON.stringify(el.getBoundingClientRect())
-            };
-          });
-        }
-        
-        return [];
+      const filled = records.filter(record => field in record.matched && record.text[field] !== 'N/A').length;
+      const isRequired = required.includes(field);
+      // Flags like the selected date are only set on some records by design
+      const status = fieldSelectors.self && filled > 0 ? 'ok' : fieldStatus(filled, records.length, isRequired);
+      report.fields.push({ group, field, records: records.length, filled, required: isRequired, status });
+      // With no records at all the container is what broke, and is already reported
+      if (isRequired && filled === 0 && (records.length > 0 || !groupSelectors.container)) {
+        report.broken.push(`${group}.${field}: empty in all ${records.length} records (${fieldSelectors.chain.join(' | ')})`);
       }
-      
-      // Return information about the cards
-      return cards.map(card => {
-        // Get all child elements to analyze structure
-        const children = Array.from(card.children);
-        
-        // Extract time information
-        const times = Array.from(card.querySelectorAll('.time, [class*="time"], .hour, [class*="hour"]'));
-        const timeInfo = times.map((t: Element) => ({ 
-          text: t.textContent?.trim(),
-          className: t.className
-        }));
-        
-        // Extract price information
-        const priceElements = Array.from(card.querySelectorAll('.price, [class*="price"], .fare, [class*="fare"], .amount, [class*="amount"]'));
-        const priceInfo = priceElements.map((p: Element) => ({ 
-          text: p.textContent?.trim(),
-          className: p.className
-        }));
-        
-        // Extract flight number information
-        const flightNumElements = Array.from(card.querySelectorAll('.flight-number, [class*="flight-number"], [class*="code"], .number, [class*="number"]'));
-        const flightNumInfo = flightNumElements.map((f: Element) => ({ 
-          text: f.textContent?.trim(),
-          className: f.className
-        }));
-        
-        return {
-          html: card.outerHTML.substring(0, 300),
-          text: card.textContent?.trim().substring(0, 100),
-          className: card.className,
-          childCount: children.length,
-          timeElements: timeInfo,
-          priceElements: priceInfo,
-          flightNumberElements: flightNumInfo
-        };
-      });
-    });
-    
-    console.log(`Found ${flightCards.length} flight cards`);
-    if (flightCards.length > 0) {
-      console.log('First flight card:', JSON.stringify(flightCards[0], null, 2));
     }
-    
-    // Look for general flight information on the page
-    console.log('\n==== FLIGHT INFORMATION ====');
-    const flightInfo = await page.evaluate(() => {
-      // Get route information
-      const routeSelector = '.flight-header__route, .trip-header__route, .flight-header__title';
-      const routeEl = document.querySelector(routeSelector);
-      const route = routeEl ? routeEl.textContent?.trim() : 'No route found';
-      
-      // Get date information
-      const dateSelector = '.flight-header__date, .trip-header__date';
-      const dateEl = document.querySelector(dateSelector);
-      const date = dateEl ? dateEl.textContent?.trim() : 'No date found';
-      
-      // Get passenger information
-      const passengerSelector = '.flight-header__passenger-number, .trip-header__passengers';
-      const passengerEl = document.querySelector(passengerSelector);
-      const passengers = passengerEl ? passengerEl.textContent?.trim() : 'No passenger info found';
-      
-      // Get price information from the page (not from individual cards)
-      const priceSelector = '.flight-header__min-price, .trip-header__price, .price-total';
-      const priceEl = document.querySelector(priceSelector);
-      const price = priceEl ? priceEl.textContent?.trim() : 'No price found';
-      
-      // Get a full page snapshot of just text for debugging
-      const bodyText = document.body.textContent?.trim().substring(0, 500);
-      
-      return { route, date, passengers, price, bodyText };
-    });
-    
-    console.log('Flight Information:', JSON.stringify(flightInfo, null, 2));
-    
-    return {
-      dateItems,
-      flightCards,
-      flightInfo
-    };
-  } catch (error) {
-    console.error('An error occurred:', error);
-    throw error;
-  } finally {
-    // Keep browser open for a moment to check
-    await new Promise(resolve => setTimeout(resolve, 10000));
-    await browser.close();
-    console.log('Browser closed.');
   }
+
+  return report;
 }
 
-// Run the analysis
-analyzeRyanairStructure().catch(console.error);
\ No newline at end of file
+const fieldStatus = (filled: number, records: number, required: boolean): FieldHealth['status'] =>
+  filled === 0 ? (required ? 'broken' : 'empty') : filled < records ? 'partly empty' : 'ok';
+
+// Check a saved snapshot, or the live example route, when started directly rather than through the analyze-page command
+if (require.main === module) {
+  const [snapshot] = process.argv.slice(2);
+  const source: PageSource = snapshot
+    ? { snapshot }
+    : { url: buildSelectUrl('BUD', 'MAN', addDays(toIsoDate(new Date()), 30), { adults: 1, teens: 0, children: 0, infants: 0 }) };
+  analyzeRyanairStructure(source)
+    .then(report => {
+      console.table(report.fields);
+      report.broken.forEach(problem => console.error(`BROKEN ${problem}`));
+      process.exitCode = report.broken.length > 0 ? 1 : 0;
+    })
+    .catch(error => {
+      console.error(error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,111 @@
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+import { CronSchedule, nextCronTime } from './cron';
+
+export type RunOutcome = 'finished' | 'interrupted';
+
+export interface ScheduledJob {
+  // Unique name, also the key of the job's last-run time in the state file
+  name: string;
+  schedule: CronSchedule;
+  // Each run starts up to this many minutes after its scheduled time, so jobs do not all hit the site at once
+  jitterMinutes: number;
+  /**
+   * Do the job's work
+   * @returns 'interrupted' when the run was cut short, so it is not recorded and runs again after a restart
+   */
+  run(): Promise<RunOutcome>;
+}
+
+export interface Scheduler {
+  /**
+   * Stop starting new runs
+   * @returns Resolves when the runs still in progress have finished
+   */
+  stop(): Promise<void>;
+}
+
+// Start time of the last finished run of each job, by job name
+type ScheduleState = { [name: string]: string };
+
+const TICK_MS = 30 * 1000;
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Run jobs on their cron schedules until stopped.
+ * A job is never started while its previous run is still going; the missed slot is skipped.
+ * Finished runs are recorded in a JSON file, so after a restart a job whose
+ * scheduled time passed while the process was down runs once straight away.
+ * Jobs that never ran before also run straight away.
+ * @param statePath File that keeps the last-run times
+ */
+export function startScheduler(jobs: ScheduledJob[], statePath: string): Scheduler {
+  const state: ScheduleState = existsSync(statePath) ? JSON.parse(readFileSync(statePath, 'utf8')) : {};
+  const running = new Map<string, Promise<void>>();
+  const dueAt = new Map<string, Date>();
+  let stopped = false;
+
+  const withJitter = (time: Date, job: ScheduledJob): Date =>
+    new Date(time.getTime() + Math.random() * job.jitterMinutes * MINUTE_MS);
+
+  const scheduleNext = (job: ScheduledJob, after: Date) => {
+    const due = withJitter(nextCronTime(job.schedule, after), job);
+    dueAt.set(job.name, due);
+    console.log(`Next run of ${job.name} at ${due.toISOString()}`);
+  };
+
+  const start = (job: ScheduledJob, now: Date) => {
+    console.log(`Starting scheduled run of ${job.name}`);
+    const run = job.run()
+      .then(outcome => {
+        // A run cut short by shutdown is not recorded, so it is caught up after the restart
+        if (outcome !== 'interrupted') {
+          state[job.name] = now.toISOString();
+          writeFileSync(statePath, JSON.stringify(state, null, 2));
+        }
+      })
+      .catch(error => console.error(`Error in scheduled run of ${job.name}:`, error))
+      .finally(() => running.delete(job.name));
+    running.set(job.name, run);
+  };
+
+  const tick = () => {
+    const now = new Date();
+    for (const job of jobs) {
+      const due = dueAt.get(job.name);
+      if (stopped || !due || due > now) {
+        continue;
+      }
+      if (running.has(job.name)) {
+        console.warn(`Skipping run of ${job.name}: the previous run is still in progress`);
+      } else {
+        start(job, now);
+      }
+      scheduleNext(job, now);
+    }
+  };
+
+  const now = new Date();
+  for (const job of jobs) {
+    const lastRun = state[job.name];
+    if (!lastRun) {
+      console.log(`${job.name} has not run before, running it now`);
+      dueAt.set(job.name, withJitter(now, job));
+    } else if (nextCronTime(job.schedule, new Date(lastRun)) <= now) {
+      console.log(`${job.name} missed a run since ${lastRun}, catching up`);
+      dueAt.set(job.name, withJitter(now, job));
+    } else {
+      scheduleNext(job, new Date(lastRun));
+    }
+  }
+
+  tick();
+  const timer = setInterval(tick, TICK_MS);
+
+  return {
+    async stop() {
+      stopped = true;
+      clearInterval(timer);
+      await Promise.all(Array.from(running.values()));
+    }
+  };
+}
@@ -0,0 +1,153 @@
+import { Page } from 'puppeteer';
+
+export type ScrapeErrorCode =
+  | 'navigation-timeout'
+  | 'cookie-banner-missing'
+  | 'consent-blocked'
+  | 'prices-not-found'
+  | 'bot-protection'
+  | 'route-not-operated';
+
+/**
+ * Base class of the failures a search can end with.
+ * `transient` failures are worth retrying; the others will fail the same way again.
+ */
+export class ScrapeError extends Error {
+  constructor(readonly code: ScrapeErrorCode, message: string, readonly transient: boolean) {
+    super(message);
+    this.name = 'ScrapeError';
+  }
+}
+
+// The flight selection page did not finish loading in time
+export class NavigationTimeoutError extends ScrapeError {
+  constructor(url: string, timeoutMs: number) {
+    super('navigation-timeout', `Flight selection page did not load within ${timeoutMs / 1000}s: ${url}`, true);
+    this.name = 'NavigationTimeoutError';
+  }
+}
+
+// A fresh browser always gets the cookie banner, so its absence means the page did not render properly
+export class CookieBannerMissingError extends ScrapeError {
+  constructor() {
+    super('cookie-banner-missing', 'The cookie banner never appeared and no prices were shown; the page did not render', true);
+    this.name = 'CookieBannerMissingError';
+  }
+}
+
+// The cookie banner appeared but could not be dismissed, so it still covers the page
+export class ConsentBlockedError extends ScrapeError {
+  constructor(detail: string) {
+    super('consent-blocked', `Could not accept the cookie banner: ${detail}`, false);
+    this.name = 'ConsentBlockedError';
+  }
+}
+
+// The page loaded but the date prices never appeared
+export class PricesNotFoundError extends ScrapeError {
+  constructor(timeoutMs: number) {
+    super('prices-not-found', `Prices did not appear within ${timeoutMs / 1000}s`, true);
+    this.name = 'PricesNotFoundError';
+  }
+}
+
+// A captcha or access-denied page was served instead of the site; retrying straight away only makes it worse
+export class BotProtectionError extends ScrapeError {
+  constructor(detail: string) {
+    super('bot-protection', `Blocked by bot protection: ${detail}`, false);
+    this.name = 'BotProtectionError';
+  }
+}
+
+export class RouteNotOperatedError extends ScrapeError {
+  constructor(origin: string, destination: string, detail: string) {
+    super('route-not-operated', `Ryanair does not fly ${origin} to ${destination}: ${detail}`, false);
+    this.name = 'RouteNotOperatedError';
+  }
+}
+
+// Process exit status per failure, so scripts can tell them apart; 1 is any other error
+const EXIT_CODES: { [code in ScrapeErrorCode]: number } = {
+  'navigation-timeout': 10,
+  'cookie-banner-missing': 11,
+  'consent-blocked': 12,
+  'prices-not-found': 13,
+  'bot-protection': 14,
+  'route-not-operated': 15
+};
+
+export const exitCodeFor = (error: unknown): number =>
+  error instanceof ScrapeError ? EXIT_CODES[error.code] : 1;
+
+/**
+ * One-line reason for a failure, e.g. 'bot-protection: Blocked by bot protection: captcha page'
+ */
+export const describeFailure = (error: unknown): string =>
+  error instanceof ScrapeError ? `${error.code}: ${error.message}` : error instanceof Error ? error.message : String(error);
+
+// What happened to the cookie banner while loading the page
+export type ConsentOutcome = 'accepted' | 'not-shown' | 'blocked';
+
+const BOT_WALL_SELECTORS = ['#px-captcha', 'iframe[src*="captcha"]', 'iframe[src*="hcaptcha"]', '#challenge-form', '#cf-challenge-running'];
+const BOT_WALL_TEXT = /access denied|pardon our interruption|verify you are (a )?human|are you a robot|request unsuccessful|unusual traffic/i;
+const ROUTE_NOT_OPERATED_TEXT = /(route|destination) (is )?not (operated|served|available)|no (direct )?flights? (operate|operates|on this route)|we don['’]t fly/i;
+
+/**
+ * Throw a BotProtectionError if the page is a captcha or access-denied wall instead of the site
+ * @param status HTTP status of the page, if known
+ */
+export async function checkForBotWall(page: Page, status?: number): Promise<void> {
+  const { text, wall } = await page.evaluate((selectors: string[]) => ({
+    text: `${document.title}\n${document.body ? document.body.innerText.substring(0, 2000) : ''}`,
+    wall: selectors.find(selector => document.querySelector(selector)) || null
+  }), BOT_WALL_SELECTORS);
+
+  if (wall) {
+    throw new BotProtectionError(`challenge element ${wall} on the page`);
+  }
+  const match = text.match(BOT_WALL_TEXT);
+  if (match) {
+    throw new BotProtectionError(`page says "${match[0]}"${status ? ` (HTTP ${status})` : ''}`);
+  }
+  if (status === 403 || status === 429) {
+    throw new BotProtectionError(`HTTP ${status}`);
+  }
+}
+
+/**
+ * Work out why the prices never appeared and throw the matching error
+ * @param consent What happened to the cookie banner earlier
+ * @param bannerSelectors Selectors of the cookie accept button, from the selector registry
+ * @param timeoutMs How long the prices were waited for
+ */
+export async function diagnoseMissingPrices(
+  page: Page,
+  origin: string,
+  destination: string,
+  consent: ConsentOutcome,
+  bannerSelectors: string[],
+  timeoutMs: number
+): Promise<never> {
+  await checkForBotWall(page);
+
+  const { text, bannerVisible } = await page.evaluate((bannerSelectors: string[]) => {
+    const banner = document.querySelector<HTMLElement>(bannerSelectors.join(', '));
+    return {
+      text: document.body ? document.body.innerText.substring(0, 5000) : '',
+      // Hidden banners stay in the DOM after being accepted
+      bannerVisible: !!banner && banner.offsetParent !== null
+    };
+  }, bannerSelectors);
+
+  const routeMessage = text.match(ROUTE_NOT_OPERATED_TEXT);
+  if (routeMessage) {
+    throw new RouteNotOperatedError(origin, destination, `page says "${routeMessage[0]}"`);
+  }
+  if (consent === 'blocked' || bannerVisible) {
+    throw new ConsentBlockedError('the banner is still covering the page');
+  }
+  if (consent === 'not-shown') {
+    throw new CookieBannerMissingError();
+  }
+  throw new PricesNotFoundError(timeoutMs);
+}
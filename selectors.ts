@@ -0,0 +1,380 @@
+import { existsSync, readFileSync } from 'fs';
+import { ElementHandle, Page } from 'puppeteer';
+import { SelectorMatches } from './types';
+
+// Selectors tried in order until one matches; an entry may itself be a comma-separated group
+export type SelectorChain = string[];
+
+export interface FieldSelectors {
+  chain: SelectorChain;
+  // Read the nth element the selector finds instead of the first, e.g. 1 for the arrival time
+  nth?: number;
+  // The field is a flag that is set when the record's own element matches, e.g. the selected date
+  self?: boolean;
+}
+
+export interface RecordSelectors {
+  // Elements that each hold one record; the first selector that yields records wins.
+  // Without it the element searched in is the one record
+  container?: SelectorChain;
+  fields: { [field: string]: FieldSelectors };
+  // Elements missing any of these fields are not records
+  required?: string[];
+  // Records read inside each record of this group, e.g. the fare bundles of a flight card
+  groups?: { [name: string]: RecordSelectors };
+}
+
+export interface SelectorRegistry {
+  // Bumped whenever the selectors change, and logged with every extraction
+  version: string;
+  cookieAccept: SelectorChain;
+  // One container per leg of the search; one-way pages may not have any
+  journey: SelectorChain;
+  // Carousel of nearby dates, one record per date
+  dateItems: RecordSelectors;
+  // Time slots shown for the selected date
+  timeOptions: RecordSelectors;
+  flightCards: RecordSelectors;
+  // Loose class-name matching, only used when no flight cards are found
+  looseFlights: RecordSelectors;
+  // Route and date details shown above the flights
+  flightHeader: RecordSelectors;
+  // What the health check treats as broken when nothing matches, by group:
+  // 'container' and field names for record groups, an empty list for the single chains
+  mustMatch: { [group: string]: string[] };
+}
+
+type RecordGroup = 'dateItems' | 'timeOptions' | 'flightCards' | 'looseFlights' | 'flightHeader';
+
+export const CHAIN_GROUPS: ('cookieAccept' | 'journey')[] = ['cookieAccept', 'journey'];
+export const RECORD_GROUPS: RecordGroup[] = ['dateItems', 'timeOptions', 'flightCards', 'looseFlights', 'flightHeader'];
+
+// A record read from the page: the text of each field found, and the selector that found it
+export interface ScrapedRecord {
+  text: { [field: string]: string };
+  matched: SelectorMatches;
+  // Records of the nested groups found inside this one, by group name
+  groups?: { [name: string]: ScrapedRecord[] };
+}
+
+export const DEFAULT_SELECTORS: SelectorRegistry = {
+  version: '2025.04.1',
+  cookieAccept: ['button[data-ref="cookie.accept-all"]'],
+  journey: ['journey-container', '.journey-container'],
+  dateItems: {
+    container: ['.date-item'],
+    fields: {
+      selected: { chain: ['.date-item--selected'], self: true },
+      day: { chain: ['.date-item__day-of-month'] },
+      month: { chain: ['.date-item__month'] },
+      weekday: { chain: ['.date-item__day-of-week'] },
+      price: { chain: ['.date-item__price'] }
+    }
+  },
+  timeOptions: {
+    container: ['.flight-header__min-price, .flight-info, .journey-info'],
+    fields: {
+      departureTime: { chain: ['.flight-info__hour'] },
+      arrivalTime: { chain: ['.flight-info__hour'], nth: 1 },
+      fromCity: { chain: ['.flight-info__city'] },
+      toCity: { chain: ['.flight-info__city'], nth: 1 },
+      price: { chain: ['.price', '.amount', '.fare'] },
+      flightNumber: { chain: ['.card-flight-num__content'] }
+    }
+  },
+  flightCards: {
+    container: ['[data-e2e="flight-card"]', '.flight-card', '.card-flight'],
+    fields: {
+      departureTime: { chain: ['[data-ref="flight-segment.departure"] .flight-info__hour'] },
+      arrivalTime: { chain: ['[data-ref="flight-segment.arrival"] .flight-info__hour'] },
+      flightNumber: { chain: ['.card-flight-num__content'] },
+      price: { chain: ['[data-e2e="flight-card-price"]', '.flight-card__price', '.card-flight__price', '.price'] },
+      duration: { chain: ['[data-ref="flight_duration"]', '.flight-card__duration', '.card-flight__duration', '.flight-time'] }
+    },
+    groups: {
+      // Fare cards of the bundles the flight is sold in, shown inside the flight card
+      bundles: {
+        container: ['[data-e2e="fare-card"]', '.fare-card', '.fare-table__fare'],
+        fields: {
+          name: { chain: ['[data-e2e="fare-card-title"]', '.fare-card__title', '.fare-table__name'] },
+          price: { chain: ['[data-e2e="fare-card-price"]', '.fare-card__price', '.fare-table__price'] },
+          includes: { chain: ['.fare-card__benefits', '.fare-card__list', '.fare-table__benefits'] }
+        },
+        required: ['name']
+      }
+    }
+  },
+  looseFlights: {
+    container: ['div[class*="flight"]', 'div[class*="card"]', 'tr[class*="flight"]', 'div[class*="journey"]'],
+    fields: {
+      // Times are read in page order, so the group is one entry rather than a chain
+      departureTime: { chain: ['[class*="time"], [class*="hour"], strong, .bold'] },
+      arrivalTime: { chain: ['[class*="time"], [class*="hour"], strong, .bold'], nth: 1 },
+      price: { chain: ['[class*="price"]', '[class*="amount"]', '[class*="fare"]'] },
+      flightNumber: { chain: ['[class*="flight-number"]', '[class*="number"]', '[class*="code"]'] },
+      fromAirport: { chain: ['[class*="airport"], [class*="station"], [class*="code"]'] },
+      toAirport: { chain: ['[class*="airport"], [class*="station"], [class*="code"]'], nth: 1 },
+      duration: { chain: ['[class*="duration"]', '[class*="time"]', '[class*="length"]'] }
+    },
+    required: ['departureTime', 'price']
+  },
+  flightHeader: {
+    fields: {
+      route: { chain: ['.flight-header__route', '.trip-header__route', '.flight-header__title', '.route-title'] },
+      stops: { chain: ['.flight-header__stops', '.flight-header__direct'] },
+      date: { chain: ['.flight-header__date', '.trip-header__date'] },
+      fromAirport: { chain: ['.flight-header__airport-code--from', '.airport-code:first-child'] },
+      toAirport: { chain: ['.flight-header__airport-code--to', '.airport-code:last-child'] },
+      passengers: { chain: ['.flight-header__passenger-number', '.trip-header__passengers'] },
+      price: { chain: ['.flight-header__min-price', '.trip-header__price', '.price-total'] }
+    }
+  },
+  mustMatch: {
+    dateItems: ['container', 'day', 'month', 'price'],
+    flightCards: ['container', 'departureTime', 'arrivalTime', 'price']
+  }
+};
+
+const DEFAULT_SELECTORS_FILE = 'selectors.json';
+
+/**
+ * Load the selector registry: the defaults above, with any overrides from SELECTORS_FILE
+ * (default selectors.json, if it exists) merged over them. Chains and fields given in the
+ * file replace the default ones; everything else keeps its default.
+ * @param path Overrides file; defaults to SELECTORS_FILE or selectors.json
+ * @throws Error naming the first invalid entry of the file
+ */
+export function loadSelectorRegistry(path?: string, env: NodeJS.ProcessEnv = process.env): SelectorRegistry {
+  const file = path || env.SELECTORS_FILE || (existsSync(DEFAULT_SELECTORS_FILE) ? DEFAULT_SELECTORS_FILE : undefined);
+  if (!file) {
+    return DEFAULT_SELECTORS;
+  }
+
+  const fail = (message: string): never => {
+    throw new Error(`Selectors file ${file}: ${message}`);
+  };
+  let overrides;
+  try {
+    overrides = JSON.parse(readFileSync(file, 'utf8'));
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+  if (!overrides || typeof overrides !== 'object' || Array.isArray(overrides)) {
+    fail('must contain an object');
+  }
+
+  const registry: SelectorRegistry = { ...DEFAULT_SELECTORS };
+  for (const [key, value] of Object.entries(overrides)) {
+    switch (key) {
+      case 'version':
+        registry.version = typeof value === 'string' && value ? value : fail('version must be a non-empty string');
+        break;
+      case 'cookieAccept':
+      case 'journey':
+        registry[key] = checkChain(value, key, fail);
+        break;
+      case 'dateItems':
+      case 'timeOptions':
+      case 'flightCards':
+      case 'looseFlights':
+      case 'flightHeader':
+        registry[key] = mergeRecordSelectors(registry[key], value, key, fail);
+        break;
+      case 'mustMatch':
+        // Checked below, once every group has its final fields
+        break;
+      default:
+        fail(`unknown entry "${key}"`);
+    }
+  }
+  if (overrides.mustMatch !== undefined) {
+    registry.mustMatch = checkMustMatch(overrides.mustMatch, registry, fail);
+  }
+
+  console.log(`Loaded selectors version ${registry.version} from ${file}`);
+  return registry;
+}
+
+function mergeRecordSelectors(defaults: RecordSelectors, value: unknown, group: string, fail: (message: string) => never): RecordSelectors {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return fail(`${group} must be an object`);
+  }
+  const config = value as Partial<RecordSelectors>;
+  const merged: RecordSelectors = { ...defaults, fields: { ...defaults.fields } };
+
+  if (config.container !== undefined) {
+    merged.container = checkChain(config.container, `${group}.container`, fail);
+  }
+  for (const [name, field] of Object.entries(config.fields || {})) {
+    if (!field || typeof field !== 'object') {
+      fail(`${group}.fields.${name} must be an object with a "chain"`);
+    }
+    if (field.nth !== undefined && (!Number.isInteger(field.nth) || field.nth < 0)) {
+      fail(`${group}.fields.${name}.nth must be a whole number`);
+    }
+    merged.fields[name] = { ...field, chain: checkChain(field.chain, `${group}.fields.${name}.chain`, fail) };
+  }
+  if (config.required !== undefined) {
+    const unknown = Array.isArray(config.required) ? config.required.find(name => !merged.fields[name]) : undefined;
+    if (!Array.isArray(config.required) || unknown !== undefined) {
+      fail(`${group}.required must list fields of ${group}${unknown !== undefined ? `, "${unknown}" is not one` : ''}`);
+    }
+    merged.required = config.required;
+  }
+  for (const [name, nested] of Object.entries(config.groups || {})) {
+    const defaultGroup = (defaults.groups || {})[name] || { fields: {} };
+    merged.groups = { ...merged.groups, [name]: mergeRecordSelectors(defaultGroup, nested, `${group}.groups.${name}`, fail) };
+  }
+  return merged;
+}
+
+function checkMustMatch(value: unknown, registry: SelectorRegistry, fail: (message: string) => never): SelectorRegistry['mustMatch'] {
+  if (!value || typeof value !== 'object' || Array.isArray(value)) {
+    return fail('mustMatch must be an object');
+  }
+  for (const [group, names] of Object.entries(value)) {
+    if (!Array.isArray(names)) {
+      fail(`mustMatch.${group} must be a list`);
+    }
+    const recordGroup = RECORD_GROUPS.find(name => name === group);
+    if (recordGroup) {
+      const unknown = names.find(name => name !== 'container' && !registry[recordGroup].fields[name]);
+      if (unknown !== undefined) {
+        fail(`mustMatch.${group}: "${unknown}" is not "container" or a field of ${group}`);
+      }
+    } else if (!CHAIN_GROUPS.some(name => name === group)) {
+      fail(`mustMatch: unknown group "${group}"`);
+    } else if (names.length > 0) {
+      fail(`mustMatch.${group} must be an empty list, ${group} has no fields`);
+    }
+  }
+  return value as SelectorRegistry['mustMatch'];
+}
+
+function checkChain(value: unknown, name: string, fail: (message: string) => never): SelectorChain {
+  if (!Array.isArray(value) || value.length === 0 || !value.every(selector => typeof selector === 'string' && selector.trim())) {
+    return fail(`${name} must be a non-empty list of selectors`);
+  }
+  return value;
+}
+
+/**
+ * One selector that matches anything any selector of the chain matches, for waiting on an element
+ */
+export const anySelector = (chain: SelectorChain): string => chain.join(', ');
+
+/**
+ * Find the elements of the first selector in the chain that matches any
+ */
+export async function queryChain(scope: Page | ElementHandle<Element>, chain: SelectorChain): Promise<ElementHandle<Element>[]> {
+  for (const selector of chain) {
+    const elements = await scope.$$(selector);
+    if (elements.length > 0) {
+      return elements;
+    }
+  }
+  return [];
+}
+
+/**
+ * Read the records of one group from the page
+ * @param root Element to search in, e.g. the journey container of one leg
+ * @returns The records in page order, each tagged with the selectors that matched
+ */
+export async function scrapeRecords(root: ElementHandle<Element>, selectors: RecordSelectors): Promise<ScrapedRecord[]> {
+  return root.evaluate(extractRecords, selectors);
+}
+
+/**
+ * Read records from a DOM tree. Runs inside the page, so it must not use anything from outside itself.
+ * A field takes its text from the first selector of its chain that finds an element with text.
+ * Nested groups are read inside each record's own element.
+ */
+export function extractRecords(root: Element, selectors: RecordSelectors): ScrapedRecord[] {
+  const readGroup = (scope: Element, group: RecordSelectors): ScrapedRecord[] => {
+    const readRecord = (element: Element, container?: string): ScrapedRecord | null => {
+      const record: ScrapedRecord = { text: {}, matched: container ? { container } : {} };
+      for (const name of Object.keys(group.fields)) {
+        const field = group.fields[name];
+        for (const selector of field.chain) {
+          const found = field.self
+            ? (element.matches(selector) ? element : null)
+            : element.querySelectorAll(selector)[field.nth || 0];
+          const text = found ? (found.textContent || '').trim() : '';
+          if (found && (text || field.self)) {
+            record.text[name] = text;
+            record.matched[name] = selector;
+            break;
+          }
+        }
+      }
+      if (!(group.required || []).every(name => name in record.matched)) {
+        return null;
+      }
+      if (group.groups) {
+        record.groups = {};
+        for (const name of Object.keys(group.groups)) {
+          record.groups[name] = readGroup(element, group.groups[name]);
+        }
+      }
+      return record;
+    };
+
+    if (!group.container) {
+      const record = readRecord(scope);
+      return record ? [record] : [];
+    }
+    for (const container of group.container) {
+      const records: ScrapedRecord[] = [];
+      scope.querySelectorAll(container).forEach(element => {
+        const record = readRecord(element, container);
+        if (record) {
+          records.push(record);
+        }
+      });
+      if (records.length > 0) {
+        return records;
+      }
+    }
+    return [];
+  };
+
+  return readGroup(root, selectors);
+}
+
+// How often each selector matched, for the health check
+export interface SelectorCounts {
+  // Elements each container selector finds
+  container: { [selector: string]: number };
+  // Records in which each selector of a field finds text, by field
+  fields: { [field: string]: { [selector: string]: number } };
+}
+
+/**
+ * Count the matches of every selector of a group, not just the first of each chain that works.
+ * Runs inside the page, so it must not use anything from outside itself.
+ * @param container Container selector whose elements the fields are counted in;
+ * null when no container matched, or the group has none and root is the record
+ */
+export function countMatches(root: Element, selectors: RecordSelectors, container: string | null): SelectorCounts {
+  const counts: SelectorCounts = { container: {}, fields: {} };
+  for (const selector of selectors.container || []) {
+    counts.container[selector] = root.querySelectorAll(selector).length;
+  }
+
+  const elements = container ? Array.from(root.querySelectorAll(container)) : selectors.container ? [] : [root];
+  for (const name of Object.keys(selectors.fields)) {
+    const field = selectors.fields[name];
+    counts.fields[name] = {};
+    for (const selector of field.chain) {
+      counts.fields[name][selector] = elements.filter(element => {
+        if (field.self) {
+          return element.matches(selector);
+        }
+        const found = element.querySelectorAll(selector)[field.nth || 0];
+        return !!found && !!(found.textContent || '').trim();
+      }).length;
+    }
+  }
+  return counts;
+}
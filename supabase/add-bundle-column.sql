@@ -0,0 +1,4 @@
+-- Adds the fare bundle column that price stores write since bundles can be targeted (--bundle, "bundle" in watches).
+-- Run once in the SQL editor of projects whose FlightPrices table was created before that.
+-- Existing rows keep a null bundle, which is how headline fares are stored.
+alter table "FlightPrices" add column if not exists bundle text;
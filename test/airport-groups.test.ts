@@ -0,0 +1,114 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { airportPairs, checkAirportPairs, checkAirports, expandAirports, rankPairResults, searchRoute } from '../airport-groups';
+import { resultRows } from '../output';
+import { FlightData, FlightPriceResult } from '../types';
+
+const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+const searchResult = (origin: string, destination: string, fare: number | null): FlightPriceResult => {
+  const flight: FlightData = {
+    flightNumber: `FR ${fare}`,
+    departureTime: '06:15',
+    arrivalTime: '07:55',
+    price: fare === null ? null : eur(fare),
+    duration: '2h 40m',
+    fromAirport: origin,
+    toAirport: destination
+  };
+  return {
+    flights: [flight],
+    datePrices: [{ date: '22 Aug', isoDate: '2026-08-22', weekday: 'Sat', price: flight.price, isSelected: true }]
+  };
+};
+
+describe('expandAirports', () => {
+  it('expands city groups, city names and lists, dropping airports given twice', () => {
+    assert.deepEqual(expandAirports('lon'), ['STN', 'LTN', 'LGW']);
+    assert.deepEqual(expandAirports('STN, MIL,LTN,STN'), ['STN', 'BGY', 'MXP', 'LTN']);
+    assert.deepEqual(expandAirports('Manchester, Rome'), ['MAN', 'CIA', 'FCO']);
+    // Airports the catalog does not have can still be given by code
+    assert.deepEqual(expandAirports('BUD,rix'), ['BUD', 'RIX']);
+  });
+
+  it('rejects anything that is not a known airport or city, or a city group', () => {
+    assert.equal(checkAirports('LON,Milan Bergamo,MAN', '--destination'), null);
+    assert.match(checkAirports('LON,RIX', '--destination') || '', /--destination "RIX" is not an airport in the catalog/);
+    assert.equal(checkAirports('LON,RIX', '--destination', true), null);
+    assert.match(checkAirports('LON,Londres', '--destination') || '',
+      /--destination "Londres" is not an airport code or an airport or city in the catalog/);
+  });
+});
+
+describe('airportPairs', () => {
+  it('pairs every origin with every destination that Ryanair flies it to', () => {
+    assert.deepEqual(airportPairs(['BUD', 'DUB'], expandAirports('LON')), [
+      { origin: 'BUD', destination: 'STN' },
+      { origin: 'DUB', destination: 'STN' },
+      { origin: 'DUB', destination: 'LTN' },
+      { origin: 'DUB', destination: 'LGW' }
+    ]);
+  });
+
+  it('keeps pairs whose routes the catalog cannot check', () => {
+    assert.deepEqual(airportPairs(['BUD', 'RIX'], ['STN', 'LTN']), [
+      { origin: 'BUD', destination: 'STN' },
+      { origin: 'RIX', destination: 'STN' },
+      { origin: 'RIX', destination: 'LTN' }
+    ]);
+    assert.deepEqual(airportPairs(['RIX'], ['RIX']), []);
+  });
+
+  it('explains why there is nothing to search', () => {
+    assert.equal(checkAirportPairs(['BUD'], ['STN', 'LTN']), null);
+    assert.equal(checkAirportPairs(['MAN'], ['MAN']), 'origin and destination are both MAN');
+    assert.equal(checkAirportPairs(['BUD'], ['LTN', 'LGW']), 'Ryanair does not fly from BUD to LTN/LGW');
+  });
+});
+
+describe('searchRoute', () => {
+  it('names a search by the codes of its one pair, or by the airports as given', () => {
+    const route = (origin: string, destination: string) =>
+      searchRoute(origin, destination, expandAirports(origin), expandAirports(destination));
+    assert.deepEqual(route('Budapest', 'man'), { origin: 'BUD', destination: 'MAN' });
+    // Luton is not a route from Budapest, so only Stansted is searched
+    assert.deepEqual(route('Budapest', 'STN,LTN'), { origin: 'BUD', destination: 'STN' });
+    assert.deepEqual(route('DUB', 'London'), { origin: 'DUB', destination: 'London' });
+  });
+});
+
+describe('rankPairResults', () => {
+  it('ranks the flights and dates of every pair cheapest first, tagged with their pair', () => {
+    const ranked = rankPairResults([
+      { pair: { origin: 'BUD', destination: 'STN' }, flightData: searchResult('BUD', 'STN', 3999) },
+      { pair: { origin: 'BUD', destination: 'LTN' }, flightData: searchResult('BUD', 'LTN', null) },
+      { pair: { origin: 'BUD', destination: 'LGW' }, flightData: searchResult('BUD', 'LGW', 2499) }
+    ]);
+
+    assert.deepEqual(ranked.flights.map(flight => [flight.pair?.destination, flight.price?.amount]), [
+      ['LGW', 2499],
+      ['STN', 3999],
+      ['LTN', undefined]
+    ]);
+    assert.deepEqual(ranked.datePrices.map(datePrice => datePrice.pair?.destination), ['LGW', 'STN', 'LTN']);
+    assert.equal(ranked.inbound, undefined);
+
+    // Output rows name the pair rather than the city group that was searched
+    const rows = resultRows(ranked, { origin: 'BUD', destination: 'LON', date: '2026-08-22' });
+    assert.deepEqual(rows.slice(0, 2).map(row => `${row.origin}-${row.destination}`), ['BUD-LGW', 'BUD-STN']);
+  });
+
+  it('ranks the return legs of each pair the other way round', () => {
+    const withReturn = (origin: string, destination: string, fare: number): FlightPriceResult =>
+      ({ ...searchResult(origin, destination, fare), inbound: searchResult(destination, origin, fare) });
+    const ranked = rankPairResults([
+      { pair: { origin: 'BUD', destination: 'BGY' }, flightData: withReturn('BUD', 'BGY', 3000) },
+      { pair: { origin: 'BUD', destination: 'MXP' }, flightData: withReturn('BUD', 'MXP', 2000) }
+    ]);
+
+    assert.deepEqual(ranked.inbound?.flights.map(flight => flight.pair), [
+      { origin: 'MXP', destination: 'BUD' },
+      { origin: 'BGY', destination: 'BUD' }
+    ]);
+  });
+});
@@ -0,0 +1,58 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { checkAirport, hasRyanairRoute, lookupAirports, normalizeAirport, routeStatus } from '../airports';
+
+describe('lookupAirports', () => {
+  it('finds airports by code, airport name or city name', () => {
+    assert.deepEqual(lookupAirports('man').map(airport => airport.iata), ['MAN']);
+    assert.deepEqual(lookupAirports('Manchester').map(airport => airport.iata), ['MAN']);
+    assert.deepEqual(lookupAirports('London Stansted').map(airport => airport.iata), ['STN']);
+    assert.deepEqual(lookupAirports('london').map(airport => airport.iata), ['LGW', 'LTN', 'STN']);
+    assert.deepEqual(lookupAirports('Atlantis'), []);
+  });
+
+  it('has a time zone and country for every airport', () => {
+    const [budapest] = lookupAirports('Budapest');
+    assert.equal(budapest.timezone, 'Europe/Budapest');
+    assert.equal(budapest.country, 'HU');
+  });
+});
+
+describe('normalizeAirport', () => {
+  it('reads airport codes back from the names shown on the page', () => {
+    assert.equal(normalizeAirport('London Stansted'), 'STN');
+    assert.equal(normalizeAirport('Manchester (MAN)'), 'MAN');
+    assert.equal(normalizeAirport('Kraków Airport'), 'KRK');
+    assert.equal(normalizeAirport('BUD'), 'BUD');
+  });
+
+  it('gives up on cities with several airports and on text that is not an airport', () => {
+    assert.equal(normalizeAirport('London'), null);
+    assert.equal(normalizeAirport('Direct'), null);
+    assert.equal(normalizeAirport(undefined), null);
+  });
+});
+
+describe('routes', () => {
+  it('lists every route at both ends', () => {
+    assert.ok(hasRyanairRoute('BUD', 'STN'));
+    assert.ok(hasRyanairRoute('STN', 'BUD'));
+    assert.ok(hasRyanairRoute('bud', 'man'));
+    assert.ok(!hasRyanairRoute('BUD', 'LTN'));
+    assert.ok(!hasRyanairRoute('XXX', 'STN'));
+  });
+
+  it('tells unlisted routes apart from routes it cannot check', () => {
+    assert.equal(routeStatus('BUD', 'stn'), 'listed');
+    assert.equal(routeStatus('BUD', 'LTN'), 'unlisted');
+    assert.equal(routeStatus('RIX', 'STN'), 'unknown');
+  });
+
+  it('accepts airports and cities in the catalog, and other airport codes only when asked to', () => {
+    assert.equal(checkAirport('Milan', '--destination'), null);
+    assert.equal(checkAirport('man', '--destination'), null);
+    assert.match(checkAirport('MNA', '--destination') || '', /--destination "MNA" is not an airport in the catalog; check the code, or .*--any-airport/);
+    assert.equal(checkAirport('RIX', '--destination', true), null);
+    assert.match(checkAirport('Riga', '--destination', true) || '', /--destination "Riga" is not an airport code or an airport or city in the catalog/);
+  });
+});
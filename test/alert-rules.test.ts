@@ -0,0 +1,87 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { AlertRule, checkRule, describeRule, evaluateRules } from '../alert-rules';
+import { Money } from '../money';
+import { StoredPrice } from '../price-store';
+
+const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+const now = new Date('2026-08-10T12:00:00Z');
+
+// Stored prices for BUD to STN on 22 August, checked the given number of days before now
+const stored = (...prices: [Money | null, number][]): StoredPrice[] => prices.map(([price, daysAgo]) => ({
+  origin: 'BUD',
+  destination: 'STN',
+  date: '2026-08-22',
+  weekday: 'Sat',
+  price,
+  exactDate: true,
+  createdAt: new Date(now.getTime() - daysAgo * 24 * 60 * 60 * 1000).toISOString()
+}));
+
+const fires = (rule: AlertRule, current: Money, history: StoredPrice[]) =>
+  evaluateRules([rule], { current, history, now }).map(match => match.reason);
+
+describe('evaluateRules', () => {
+  it('priceCeiling fires at or below the ceiling, in its own currency only', () => {
+    const rule: AlertRule = { type: 'priceCeiling', max: 29.99, currency: 'EUR' };
+    assert.deepEqual(fires(rule, eur(2999), []), ['29.99 EUR is at or below 29.99 EUR']);
+    assert.deepEqual(fires(rule, eur(3000), []), []);
+    assert.deepEqual(fires(rule, { amount: 1000, currency: 'GBP' }, []), []);
+  });
+
+  it('percentDrop compares with the last stored price in the same currency', () => {
+    const rule: AlertRule = { type: 'percentDrop', minPercent: 10 };
+    const history = stored([eur(5000), 2], [{ amount: 900000, currency: 'HUF' }, 1], [null, 0]);
+    assert.deepEqual(fires(rule, eur(4500), history), ['dropped 10.0% (from 50.00 EUR)']);
+    assert.deepEqual(fires(rule, eur(4600), history), []);
+    assert.deepEqual(fires(rule, eur(4500), []), []);
+  });
+
+  it('absoluteDrop needs a drop of at least the amount', () => {
+    const rule: AlertRule = { type: 'absoluteDrop', minAmount: 5, currency: 'EUR' };
+    const history = stored([eur(6000), 3], [eur(5000), 1]);
+    assert.deepEqual(fires(rule, eur(4500), history), ['dropped by 5.00 EUR (from 50.00 EUR)']);
+    assert.deepEqual(fires(rule, eur(4600), history), []);
+    assert.deepEqual(fires({ ...rule, currency: 'GBP' }, eur(4000), history), []);
+  });
+
+  it('allTimeLow needs a price below every stored one', () => {
+    const rule: AlertRule = { type: 'allTimeLow' };
+    const history = stored([eur(4000), 5], [eur(5000), 1]);
+    assert.deepEqual(fires(rule, eur(3999), history), ['new all-time low (previous low 40.00 EUR)']);
+    assert.deepEqual(fires(rule, eur(4000), history), []);
+    assert.deepEqual(fires(rule, eur(100), []), []);
+  });
+
+  it('belowMedian only counts prices stored within its window', () => {
+    const rule: AlertRule = { type: 'belowMedian', days: 7 };
+    // The 10.00 EUR price is older than 7 days, so the median is of 40, 50 and 60
+    const history = stored([eur(1000), 8], [eur(6000), 6], [eur(4000), 3], [eur(5000), 1]);
+    assert.deepEqual(fires(rule, eur(4999), history), ['below the 7-day median of 50.00 EUR']);
+    assert.deepEqual(fires(rule, eur(5000), history), []);
+    // An even number of prices takes the mean of the middle two
+    assert.deepEqual(fires(rule, eur(4000), stored([eur(4000), 1], [eur(5000), 1])), ['below the 7-day median of 45.00 EUR']);
+  });
+
+  it('returns every rule that fired', () => {
+    const rules: AlertRule[] = [{ type: 'allTimeLow' }, { type: 'percentDrop', minPercent: 50 }, { type: 'percentDrop', minPercent: 0, urgent: true }];
+    const matches = evaluateRules(rules, { current: eur(4000), history: stored([eur(5000), 1]), now });
+    assert.deepEqual(matches.map(match => describeRule(match.rule)), ['new all-time low', 'any price drop']);
+  });
+});
+
+describe('checkRule', () => {
+  it('accepts complete rules', () => {
+    assert.equal(checkRule({ type: 'priceCeiling', max: 30, currency: 'EUR', urgent: true }), null);
+    assert.equal(checkRule({ type: 'belowMedian', days: 30 }), null);
+  });
+
+  it('names what is missing or wrong', () => {
+    assert.match(checkRule({ type: 'priceCeiling', max: -1, currency: 'EUR' }) || '', /needs "max" and "currency"/);
+    assert.match(checkRule({ type: 'percentDrop', minPercent: NaN }) || '', /non-negative "minPercent"/);
+    assert.match(checkRule({ type: 'belowMedian', days: 1.5 }) || '', /positive whole number of "days"/);
+    assert.match(checkRule({ type: 'allTimeLow', urgent: 'yes' } as unknown as AlertRule) || '', /non-boolean "urgent"/);
+    assert.match(checkRule({ type: 'cheapest' } as unknown as AlertRule) || '', /unknown alert rule type "cheapest"/);
+  });
+});
@@ -0,0 +1,118 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { AlertRule, RuleMatch } from '../alert-rules';
+import { AlertStateSettings, AlertStateStore, createMemoryAlertStateStore, filterAnnouncedAlerts, listActiveAlerts } from '../alert-state';
+import { Money } from '../money';
+
+const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+const rule: AlertRule = { type: 'percentDrop', minPercent: 0 };
+const matched: RuleMatch[] = [{ rule, reason: 'dropped' }];
+
+const at = (hours: number) => new Date(Date.UTC(2026, 7, 1) + hours * 60 * 60 * 1000);
+
+/**
+ * Check one price of a route such as 'BUD-STN' and say whether its match would be announced
+ * @param delivered Whether the alert reaches its channels, and so is confirmed
+ */
+async function announce(
+  store: AlertStateStore,
+  route: string,
+  date: string,
+  price: Money,
+  matches: RuleMatch[],
+  settings: AlertStateSettings,
+  hours: number,
+  { bundle, delivered = true }: { bundle?: string; delivered?: boolean } = {}
+): Promise<boolean> {
+  const [origin, destination] = route.split('-');
+  const announcement = await filterAnnouncedAlerts(store, origin, destination, date, bundle, price, matches, [rule], settings, at(hours));
+  if (delivered) {
+    await announcement.confirm();
+  }
+  return announcement.matches.length === 1;
+}
+
+// Check prices for BUD to STN on 22 August
+const checker = (settings: AlertStateSettings) => {
+  const store = createMemoryAlertStateStore();
+  const check = (hours: number, amount: number, matches: RuleMatch[] = matched, delivered = true) =>
+    announce(store, 'BUD-STN', '2026-08-22', eur(amount), matches, settings, hours, { delivered });
+  return { store, check };
+};
+
+describe('filterAnnouncedAlerts', () => {
+  it('announces the first match and suppresses repeats until the price goes back up', async () => {
+    const { check } = checker({ cooldownHours: 0, rearmAmount: 0 });
+
+    assert.equal(await check(0, 5000), true);
+    assert.equal(await check(1, 4500), false);
+    // Any rise off the low rearms the rule when rearmAmount is 0
+    await check(2, 4600, []);
+    assert.equal(await check(3, 4400), true);
+  });
+
+  it('only rearms once the price has climbed rearmAmount above its low', async () => {
+    const { check } = checker({ cooldownHours: 0, rearmAmount: 5 });
+
+    assert.equal(await check(0, 5000), true);
+    await check(1, 5200, []);
+    assert.equal(await check(2, 4900), false);
+    await check(3, 5400, []);
+    assert.equal(await check(4, 4900), true);
+  });
+
+  it('rearms when the price falls by rearmAmount again, but not before the cooldown has passed', async () => {
+    const { check } = checker({ cooldownHours: 24, rearmAmount: 5 });
+
+    assert.equal(await check(0, 5000), true);
+    assert.equal(await check(1, 4500), false);
+    assert.equal(await check(25, 4400), true);
+  });
+
+  it('announces again when the last announcement was never delivered', async () => {
+    const { store, check } = checker({ cooldownHours: 24, rearmAmount: 0 });
+
+    assert.equal(await check(0, 5000, matched, false), true);
+    assert.deepEqual(await store.list(), []);
+    assert.equal(await check(1, 5000), true);
+    assert.equal(await check(2, 4900), false);
+  });
+
+  it('starts over when the price comes back in another currency', async () => {
+    const { store, check } = checker({ cooldownHours: 24, rearmAmount: 0 });
+
+    assert.equal(await check(0, 5000), true);
+    assert.equal(await announce(store, 'BUD-STN', '2026-08-22', { amount: 1800000, currency: 'HUF' }, matched,
+      { cooldownHours: 24, rearmAmount: 0 }, 1), true);
+  });
+});
+
+describe('alert state per fare bundle', () => {
+  it('keeps the headline fare and each bundle apart', async () => {
+    const store = createMemoryAlertStateStore();
+    const settings = { cooldownHours: 24, rearmAmount: 0 };
+    const check = (bundle: string | undefined, amount: number) =>
+      announce(store, 'BUD-STN', '2026-08-22', eur(amount), matched, settings, 0, { bundle });
+
+    assert.equal(await check(undefined, 3000), true);
+    assert.equal(await check('Flexi Plus', 8500), true);
+    assert.equal(await check(undefined, 2900), false);
+    assert.equal(await check('Flexi Plus', 8400), false);
+    assert.deepEqual((await store.list()).map(state => state.bundle), [undefined, 'Flexi Plus']);
+  });
+});
+
+describe('listActiveAlerts', () => {
+  it('lists announced alerts that have not been rearmed, for dates still ahead', async () => {
+    const store = createMemoryAlertStateStore();
+    const settings = { cooldownHours: 0, rearmAmount: 0 };
+    await announce(store, 'BUD-STN', '2026-08-22', eur(5000), matched, settings, 0);
+    await announce(store, 'BUD-MAN', '2026-08-20', eur(3000), matched, settings, 0);
+    await announce(store, 'BUD-MAN', '2026-08-20', eur(3500), [], settings, 1);
+    await announce(store, 'DUB-STN', '2026-07-01', eur(2000), matched, settings, 0);
+
+    const active = await listActiveAlerts(store, '2026-08-01');
+    assert.deepEqual(active.map(state => `${state.origin}-${state.destination} ${state.date}`), ['BUD-STN 2026-08-22']);
+  });
+});
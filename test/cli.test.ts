@@ -0,0 +1,66 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { CliCommand, parseCli, UsageError } from '../cli';
+
+const TODAY = '2026-08-01';
+
+const parse = (...args: string[]): CliCommand => parseCli(args, TODAY, {});
+
+const search = (...options: string[]) => parse('search', '--origin', 'BUD', '--destination', 'STN', ...options);
+
+// Assert that parsing fails with a usage error whose message matches
+const rejects = (args: string[], message: RegExp) =>
+  assert.throws(() => parseCli(args, TODAY, {}), (error: unknown) => error instanceof UsageError && message.test(error.message));
+
+describe('parseCli', () => {
+  it('parses a search with defaults filled in', () => {
+    const cli = search('--date', '2026-08-22', '--adults', '2', '--infants', '1');
+    assert.ok(cli.command === 'search');
+    assert.deepEqual(cli.trip.passengers, { adults: 2, teens: 0, children: 0, infants: 1 });
+    assert.equal(cli.trip.mode, 'network');
+    assert.equal(cli.format, 'table');
+  });
+
+  it('takes today but not the past', () => {
+    assert.equal(search('--date', TODAY).command, 'search');
+    rejects(['search', '--origin', 'BUD', '--destination', 'STN', '--date', '2026-07-31'], /--date 2026-07-31 is in the past \(today is 2026-08-01\)/);
+  });
+
+  it('allows at most one infant per adult', () => {
+    rejects(['search', '--origin', 'BUD', '--destination', 'STN', '--date', '2026-08-22', '--infants', '2'], /at most 1 infant for 1 adult/);
+    rejects(['search', '--origin', 'BUD', '--destination', 'STN', '--date', '2026-08-22', '--adults', '0'], /at least one adult/);
+  });
+
+  it('limits the party size, not counting infants', () => {
+    assert.equal(search('--date', '2026-08-22', '--adults', '20', '--children', '5', '--infants', '20').command, 'search');
+    rejects(['search', '--origin', 'BUD', '--destination', 'STN', '--date', '2026-08-22', '--adults', '20', '--teens', '6'], /at most 25 passengers/);
+  });
+
+  it('rejects unknown commands and flags', () => {
+    rejects(['book'], /Unknown command "book"/);
+    rejects(['search', '--origin', 'BUD', '--destination', 'STN', '--date', '2026-08-22', '--adult', '2'], /^search: .*--adult/);
+    rejects(['alerts', '--origin', 'BUD'], /^alerts: .*--origin/);
+  });
+
+  it('does not combine --return with --date-to', () => {
+    rejects(['search', '--origin', 'BUD', '--destination', 'STN', '--date', '2026-08-22', '--date-to', '2026-08-25', '--return', '2026-08-29'],
+      /--return cannot be combined with --date-to/);
+    const cli = search('--date', '2026-08-22', '--return', '2026-08-29');
+    assert.ok(cli.command === 'search');
+    assert.equal(cli.returnDate, '2026-08-29');
+  });
+
+  it('only searches airports outside the catalog with --any-airport', () => {
+    rejects(['search', '--origin', 'BUD', '--destination', 'MNA', '--date', '2026-08-22'], /--destination "MNA" is not an airport in the catalog/);
+    const cli = parse('search', '--origin', 'BUD', '--destination', 'RIX', '--date', '2026-08-22', '--any-airport');
+    assert.ok(cli.command === 'search');
+    assert.deepEqual(cli.trip.destinations, ['RIX']);
+    assert.equal(cli.trip.anyAirport, true);
+  });
+
+  it('takes the mode from the environment unless --mode is given', () => {
+    const cli = parseCli(['watch', '--once'], TODAY, { EXTRACTION_MODE: 'dom' });
+    assert.deepEqual(cli, { command: 'watch', watchlist: 'watchlist.json', once: true, mode: 'dom' });
+    assert.throws(() => parseCli(['watch'], TODAY, { EXTRACTION_MODE: 'api' }), /EXTRACTION_MODE "api" must be network or dom/);
+  });
+});
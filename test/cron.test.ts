@@ -0,0 +1,55 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { nextCronTime, parseCron } from '../cron';
+
+// Local time, as schedules are; 2 January 2026 is a Friday
+const local = (day: number, hour: number, minute = 0) => new Date(2026, 0, day, hour, minute);
+
+const next = (expression: string, after: Date) => nextCronTime(parseCron(expression), after);
+
+describe('parseCron', () => {
+  it('expands lists, ranges and steps', () => {
+    assert.deepEqual(Array.from(parseCron('*/15 * * * *').minutes), [0, 15, 30, 45]);
+    assert.deepEqual(Array.from(parseCron('5/20 * * * *').minutes), [5, 25, 45]);
+    assert.deepEqual(Array.from(parseCron('0 8-12/2,20 * * *').hours), [8, 10, 12, 20]);
+  });
+
+  it('takes 7 as Sunday', () => {
+    assert.deepEqual(Array.from(parseCron('0 0 * * 7').daysOfWeek), [0]);
+    assert.deepEqual(parseCron('@weekly').daysOfWeek, parseCron('0 0 * * 7').daysOfWeek);
+  });
+
+  it('names the field that is wrong', () => {
+    assert.throws(() => parseCron('60 * * * *'), /invalid minute "60" \(allowed 0-59\)/);
+    assert.throws(() => parseCron('0 0 5-1 * *'), /invalid day of month "5-1"/);
+    assert.throws(() => parseCron('*/0 * * * *'), /invalid minute/);
+    assert.throws(() => parseCron('0 0 * *'), /must have 5 fields/);
+  });
+
+  it('rejects expressions that never match', () => {
+    assert.throws(() => parseCron('0 0 31 2 *'), /never matches/);
+  });
+});
+
+describe('nextCronTime', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    assert.deepEqual(next('30 7 * * 1-5', local(2, 8)), local(5, 7, 30));
+    assert.deepEqual(next('30 7 * * 1-5', local(5, 7, 30)), local(6, 7, 30));
+    assert.deepEqual(next('*/15 * * * *', local(2, 10, 7)), local(2, 10, 15));
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday
+    assert.deepEqual(next('0 12 13 * 5', local(5, 0)), local(9, 12));
+    assert.deepEqual(next('0 12 13 * 5', local(9, 13)), local(13, 12));
+  });
+
+  it('matches both day fields when one is *', () => {
+    assert.deepEqual(next('0 12 13 * *', local(5, 0)), local(13, 12));
+    assert.deepEqual(next('0 12 * * 5', local(5, 0)), local(9, 12));
+  });
+
+  it('moves on to the next matching month', () => {
+    assert.deepEqual(next('0 6 1 3 *', local(2, 0)), new Date(2026, 2, 1, 6, 0));
+  });
+});
@@ -0,0 +1,38 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { addDays, daysBetween, isIsoDate, resolveCarouselDate } from '../dates';
+
+describe('resolveCarouselDate', () => {
+  it('gives carousel dates the year of the searched date', () => {
+    assert.equal(resolveCarouselDate('22 Aug', '2026-08-22', 0), '2026-08-22');
+    assert.equal(resolveCarouselDate('20 aug', '2026-08-22', -2), '2026-08-20');
+  });
+
+  it('moves dates after New Year into the next year', () => {
+    assert.equal(resolveCarouselDate('31 Dec', '2025-12-30', 1), '2025-12-31');
+    assert.equal(resolveCarouselDate('02 Jan', '2025-12-30', 3), '2026-01-02');
+  });
+
+  it('moves dates before New Year into the previous year', () => {
+    assert.equal(resolveCarouselDate('30 Dec', '2026-01-02', -3), '2025-12-30');
+    assert.equal(resolveCarouselDate('01 Jan', '2026-01-02', -1), '2026-01-01');
+  });
+
+  it('counts from the searched date when the text cannot be read', () => {
+    assert.equal(resolveCarouselDate('', '2025-12-30', 3), '2026-01-02');
+    assert.equal(resolveCarouselDate('Sold out', '2026-01-01', -2), '2025-12-30');
+  });
+});
+
+describe('date arithmetic', () => {
+  it('adds and counts days across month and year ends', () => {
+    assert.equal(addDays('2026-02-28', 1), '2026-03-01');
+    assert.equal(daysBetween('2025-12-30', '2026-01-02'), 3);
+  });
+
+  it('only accepts days that exist', () => {
+    assert.ok(isIsoDate('2028-02-29'));
+    assert.ok(!isIsoDate('2026-02-29'));
+    assert.ok(!isIsoDate('22/08/2026'));
+  });
+});
@@ -0,0 +1,53 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { AlertEntry } from '../alert-messages';
+import { createAlertDigest } from '../digest';
+import { AlertMessage, Notifier } from '../notifier';
+
+const entry = (destination: string): AlertEntry => ({
+  origin: 'BUD',
+  destination,
+  date: '2026-08-22',
+  previousPrice: { amount: 5000, currency: 'EUR' },
+  currentPrice: { amount: 4000, currency: 'EUR' },
+  reasons: ['any price drop: dropped 20.0% (from 50.00 EUR)'],
+  history: [],
+  bookingUrl: 'https://www.ryanair.com/'
+});
+
+const notifier = (name: string, works: boolean, sent: AlertMessage[] = []): Notifier => ({
+  name,
+  async notify(message) {
+    if (!works) {
+      throw new Error(`${name} is down`);
+    }
+    sent.push(message);
+  }
+});
+
+describe('createAlertDigest', () => {
+  it('sends one message per channel with every entry added to it', async () => {
+    const sent: AlertMessage[] = [];
+    const digest = createAlertDigest();
+    const email = notifier('email', true, sent);
+    digest.add([email], entry('STN'));
+    digest.add([email], entry('MAN'));
+
+    assert.equal(await digest.send(), 1);
+    assert.equal(sent.length, 1);
+    assert.match(sent[0].text, /BUD -> STN[\s\S]*BUD -> MAN/);
+    assert.equal(await digest.send(), 0);
+  });
+
+  it('confirms the entries that reached at least one channel', async () => {
+    const digest = createAlertDigest();
+    const confirmed: string[] = [];
+    const confirm = (name: string) => async () => { confirmed.push(name); };
+    digest.add([notifier('webhook', false), notifier('email', true)], entry('STN'), confirm('STN'));
+    digest.add([notifier('webhook', false)], entry('MAN'), confirm('MAN'));
+    digest.add([], entry('DUB'), confirm('DUB'));
+
+    await digest.send();
+    assert.deepEqual(confirmed, ['STN', 'DUB']);
+  });
+});
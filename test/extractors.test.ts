@@ -0,0 +1,232 @@
+import assert from 'assert/strict';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { JSDOM } from 'jsdom';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { describe, it } from 'node:test';
+import { extractJourney, RecordReader } from '../extractors';
+import { DEFAULT_SELECTORS, extractRecords, loadSelectorRegistry, SelectorRegistry } from '../selectors';
+
+/**
+ * Read records from a saved page the way the scraper reads them from the live one
+ * @param journeyIndex 0 for the outbound leg, 1 for the inbound leg of a return search
+ */
+function fixtureReader(name: string, journeyIndex = 0, selectors: SelectorRegistry = DEFAULT_SELECTORS): RecordReader {
+  const { document } = new JSDOM(readFileSync(join(__dirname, 'fixtures', name), 'utf8')).window;
+  const journeySelector = selectors.journey.find(selector => document.querySelector(selector));
+  const journeys = journeySelector ? Array.from(document.querySelectorAll(journeySelector)) : [];
+  const root = journeys[journeyIndex] || document.body;
+  return async group => extractRecords(root, group);
+}
+
+const extractFixture = (name: string, date = '2026-08-22', journeyIndex = 0, selectors = DEFAULT_SELECTORS) =>
+  extractJourney(fixtureReader(name, journeyIndex, selectors), selectors, 'BUD', 'MAN', date);
+
+describe('extractJourney', () => {
+  it('reads the date carousel, including sold-out dates', async () => {
+    const { datePrices } = await extractFixture('flight-cards.html');
+
+    assert.deepEqual(datePrices.map(({ matched, ...datePrice }) => datePrice), [
+      { date: '21 Aug', isoDate: '2026-08-21', weekday: 'Fri', price: { amount: 2499, currency: 'EUR' }, isSelected: false },
+      { date: '22 Aug', isoDate: '2026-08-22', weekday: 'Sat', price: { amount: 2999, currency: 'EUR' }, isSelected: true },
+      { date: '23 Aug', isoDate: '2026-08-23', weekday: 'Sun', price: null, isSelected: false }
+    ]);
+    assert.equal(datePrices[1].matched?.selected, '.date-item--selected');
+    assert.equal(datePrices[2].matched?.price, undefined);
+  });
+
+  it('reads flight cards, following each field down its fallback chain', async () => {
+    const { flights } = await extractFixture('flight-cards.html');
+
+    assert.equal(flights.length, 2);
+    assert.deepEqual(flights.map(({ matched, ...flight }) => flight), [
+      {
+        flightNumber: 'FR 1234',
+        departureTime: '06:15',
+        arrivalTime: '07:55',
+        price: { amount: 2999, currency: 'EUR' },
+        duration: '2h 40m',
+        fromAirport: 'BUD',
+        toAirport: 'MAN'
+      },
+      {
+        flightNumber: 'FR 5678',
+        departureTime: '18:40',
+        arrivalTime: '20:20',
+        // No symbol on the card, so the carousel's currency is used
+        price: { amount: 4550, currency: 'EUR' },
+        duration: '2h 40m',
+        fromAirport: 'BUD',
+        toAirport: 'MAN'
+      }
+    ]);
+    assert.equal(flights[0].matched?.container, '[data-e2e="flight-card"]');
+    assert.equal(flights[0].matched?.price, '[data-e2e="flight-card-price"]');
+    assert.equal(flights[1].matched?.price, '.card-flight__price');
+    assert.equal(flights[1].matched?.duration, '.card-flight__duration');
+  });
+
+  it('reads the fare bundles shown inside each flight card', async () => {
+    const { flights } = await extractFixture('fare-bundles.html');
+
+    assert.deepEqual(flights[0].bundles?.map(({ matched, ...bundle }) => bundle), [
+      // Older name, and no list of what it includes, so the standard contents are assumed
+      { name: 'Basic', price: { amount: 2999, currency: 'EUR' }, includes: ['small-bag'] },
+      { name: 'Regular', price: { amount: 4799, currency: 'EUR' }, includes: ['small-bag', 'cabin-bag', 'seat', 'priority'] },
+      { name: 'Flexi Plus', price: null, includes: ['small-bag', 'cabin-bag', 'checked-bag', 'seat', 'priority', 'flexible'] }
+    ]);
+    assert.equal(flights[0].bundles?.[1].matched?.includes, '.fare-card__benefits');
+    // The headline price is still the card's own
+    assert.deepEqual(flights[1].price, { amount: 4550, currency: 'EUR' });
+    assert.deepEqual(flights[1].bundles?.map(bundle => bundle.name), ['Basic', 'Regular']);
+  });
+
+  it('falls back to loose class-name matching when there are no flight cards', async () => {
+    const { flights } = await extractFixture('loose-flights.html');
+
+    // The promo box has neither a time nor a price, so it is not taken for a flight
+    assert.equal(flights.length, 1);
+    const { matched, ...flight } = flights[0];
+    assert.deepEqual(flight, {
+      flightNumber: 'FR 2468',
+      departureTime: '09:05',
+      arrivalTime: '10:45',
+      price: { amount: 3100, currency: 'GBP' },
+      duration: '1h 40m',
+      fromAirport: 'BUD',
+      toAirport: 'MAN'
+    });
+    assert.equal(matched?.container, 'div[class*="flight"]');
+    assert.equal(matched?.price, '[class*="amount"]');
+    assert.equal(matched?.toAirport, '[class*="airport"], [class*="station"], [class*="code"]');
+  });
+
+  it('reads the airports shown on the page back into codes rather than assuming the searched ones', async () => {
+    // Searched as another route, so the codes can only have come from the page
+    const { flights } = await extractJourney(fixtureReader('loose-flights.html'), DEFAULT_SELECTORS, 'STN', 'DUB', '2026-08-22');
+
+    // Shown as 'Budapest Ferenc Liszt' and 'Manchester (MAN)'
+    assert.equal(flights[0].fromAirport, 'BUD');
+    assert.equal(flights[0].toAirport, 'MAN');
+  });
+
+  it('uses the time options instead of a "Check website" entry when the page has them', async () => {
+    const { flights } = await extractFixture('time-options.html');
+
+    assert.deepEqual(flights.map(({ matched, ...flight }) => flight), [
+      {
+        flightNumber: 'FR 111',
+        departureTime: '06:00',
+        arrivalTime: '07:40',
+        price: { amount: 2499900, currency: 'HUF' },
+        duration: 'See website',
+        fromAirport: 'BUD',
+        toAirport: 'MAN'
+      },
+      {
+        flightNumber: 'Direct flight',
+        departureTime: '21:30',
+        arrivalTime: '23:10',
+        price: null,
+        duration: 'See website',
+        fromAirport: 'BUD',
+        toAirport: 'MAN'
+      }
+    ]);
+    assert.equal(flights[0].matched?.container, '.flight-header__min-price, .flight-info, .journey-info');
+  });
+
+  it('falls back to a "Check website" entry with the selected date price', async () => {
+    const { flights } = await extractFixture('check-website.html');
+
+    assert.equal(flights.length, 1);
+    const { matched, ...flight } = flights[0];
+    assert.deepEqual(flight, {
+      flightNumber: 'Direct',
+      departureTime: 'Check website',
+      arrivalTime: 'Check website',
+      price: { amount: 3999, currency: 'EUR' },
+      duration: 'Check website',
+      fromAirport: 'BUD',
+      toAirport: 'MAN'
+    });
+    assert.equal(matched?.stops, '.flight-header__direct');
+    assert.equal(matched?.price, '.date-item__price');
+  });
+
+  it('finds no flights when no date is selected and nothing else matches', async () => {
+    const { flights, datePrices } = await extractFixture('no-prices.html');
+
+    assert.deepEqual(flights, []);
+    assert.equal(datePrices.length, 1);
+    assert.equal(datePrices[0].price, null);
+  });
+
+  it('reads each leg of a return trip from its own journey container', async () => {
+    const outbound = await extractFixture('return-trip.html', '2026-12-30', 0);
+    const inbound = await extractFixture('return-trip.html', '2027-01-02', 1);
+
+    assert.deepEqual(outbound.flights.map(flight => flight.flightNumber), ['FR 100']);
+    assert.deepEqual(outbound.datePrices.map(datePrice => datePrice.isoDate), ['2026-12-30']);
+    assert.deepEqual(inbound.flights.map(flight => flight.flightNumber), ['FR 101']);
+    assert.deepEqual(inbound.datePrices.map(datePrice => datePrice.isoDate), ['2027-01-01', '2027-01-02']);
+  });
+
+  it('follows markup changes given in a selectors file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'selectors-'));
+    try {
+      const file = join(dir, 'selectors.json');
+      writeFileSync(file, JSON.stringify({
+        version: 'test',
+        flightCards: {
+          container: ['.result-flight'],
+          fields: {
+            departureTime: { chain: ['.dep-time'] },
+            arrivalTime: { chain: ['.arr-time'] },
+            price: { chain: ['.fare-amount'] }
+          }
+        }
+      }));
+      const selectors = loadSelectorRegistry(file, {});
+
+      const { flights } = await extractFixture('loose-flights.html', '2026-08-22', 0, selectors);
+
+      assert.equal(flights.length, 2);
+      assert.equal(flights[0].matched?.container, '.result-flight');
+      assert.equal(flights[0].departureTime, '09:05');
+      assert.deepEqual(flights[0].price, { amount: 3100, currency: 'GBP' });
+      // The promo box is a card under the new markup, just one without a fare
+      assert.equal(flights[1].price, null);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('loadSelectorRegistry', () => {
+  it('uses the defaults when there is no selectors file', () => {
+    assert.equal(loadSelectorRegistry(undefined, { SELECTORS_FILE: '' }), DEFAULT_SELECTORS);
+  });
+
+  it('rejects empty fallback chains', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'selectors-'));
+    try {
+      const file = join(dir, 'selectors.json');
+      writeFileSync(file, JSON.stringify({ dateItems: { fields: { price: { chain: [] } } } }));
+      assert.throws(() => loadSelectorRegistry(file, {}), /dateItems\.fields\.price\.chain must be a non-empty list of selectors/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  it('names the file when it is not valid JSON', () => {
+    const dir = mkdtempSync(join(tmpdir(), 'selectors-'));
+    try {
+      const file = join(dir, 'selectors.json');
+      writeFileSync(file, '{ "version": ');
+      assert.throws(() => loadSelectorRegistry(file, {}), (error: Error) => error.message.startsWith(`Selectors file ${file}: `));
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,59 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { applyBundle, bundleName, toFareBundle } from '../fare-bundles';
+import { DatePrice, FlightData } from '../types';
+
+const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+const flight = (flightNumber: string, basic: number, regular?: number): FlightData => ({
+  flightNumber,
+  departureTime: '06:15',
+  arrivalTime: '07:55',
+  price: eur(basic),
+  duration: '2h 40m',
+  fromAirport: 'BUD',
+  toAirport: 'MAN',
+  bundles: [
+    toFareBundle('Basic', eur(basic)),
+    ...(regular !== undefined ? [toFareBundle('Regular', eur(regular))] : [])
+  ]
+});
+
+const datePrices: DatePrice[] = [
+  { date: '21 Aug', isoDate: '2026-08-21', weekday: 'Fri', price: eur(1999), isSelected: false },
+  { date: '22 Aug', isoDate: '2026-08-22', weekday: 'Sat', price: eur(2999), isSelected: true, matched: { price: '.date-item__price' } }
+];
+
+describe('bundleName', () => {
+  it('accepts any case and the older bundle names', () => {
+    assert.equal(bundleName('flexi plus'), 'Flexi Plus');
+    assert.equal(bundleName('REGULAR'), 'Regular');
+    assert.equal(bundleName('Value'), 'Basic');
+    assert.equal(bundleName('Business'), null);
+  });
+});
+
+describe('toFareBundle', () => {
+  it('reads what is included from the fare card text', () => {
+    assert.deepEqual(toFareBundle('Plus', eur(5499), '1 small bag, 20kg check-in bag, Reserved seat').includes,
+      ['small-bag', 'checked-bag', 'seat']);
+  });
+});
+
+describe('applyBundle', () => {
+  it('prices flights and the searched date in the chosen bundle', () => {
+    const result = applyBundle({ flights: [flight('FR 1', 2999, 4799), flight('FR 2', 4550)], datePrices }, 'Regular');
+
+    assert.deepEqual(result.flights.map(bundled => bundled.price), [eur(4799), null]);
+    // The carousel only shows Basic fares, so the other dates are left out
+    assert.deepEqual(result.datePrices, [{ date: '22 Aug', isoDate: '2026-08-22', weekday: 'Sat', price: eur(4799), isSelected: true }]);
+  });
+
+  it('leaves the date out when no flight showed its bundles', () => {
+    const { bundles, ...headlineOnly } = flight('FR 1', 2999);
+    const result = applyBundle({ flights: [headlineOnly], datePrices }, 'Regular');
+
+    assert.deepEqual(result.datePrices, []);
+    assert.equal(result.flights[0].price, null);
+  });
+});
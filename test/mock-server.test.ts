@@ -0,0 +1,219 @@
+import assert from 'assert/strict';
+import { existsSync } from 'fs';
+import { JSDOM } from 'jsdom';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import puppeteer from 'puppeteer';
+import { DEFAULT_RULES } from '../alert-rules';
+import { createMemoryAlertStateStore, DEFAULT_ALERT_STATE_SETTINGS } from '../alert-state';
+import { createBrowserPool } from '../browser-pool';
+import { createAlertDigest } from '../digest';
+import { extractJourney } from '../extractors';
+import { AlertSettings, searchAndStore, Stores } from '../index';
+import { MockServer, startMockServer } from '../mock-server';
+import { AlertMessage, createConsoleNotifier } from '../notifier';
+import { createMemoryStore } from '../price-store';
+import { FARE_BUNDLES } from '../fare-bundles';
+import { availabilityHasBundle, AvailabilityResponse, buildSelectUrl, journeyFromAvailability } from '../ryanair-api';
+import { DEFAULT_SELECTORS, extractRecords } from '../selectors';
+
+const PASSENGERS = { adults: 1, teens: 0, children: 0, infants: 0 };
+
+describe('mock Ryanair server', () => {
+  let server: MockServer;
+
+  before(async () => {
+    server = await startMockServer({ port: 0, slowMs: 200 });
+  });
+  after(() => server.close());
+  beforeEach(() => server.reset());
+
+  // Load the selection page and read it as the scraper does, without running its scripts
+  const openPage = async (baseUrl: string, date = '2026-08-22', returnDate?: string) => {
+    const response = await fetch(buildSelectUrl('BUD', 'STN', date, PASSENGERS, returnDate, baseUrl));
+    const html = await response.text();
+    const { document } = new JSDOM(html).window;
+    const journeys = Array.from(document.querySelectorAll('.journey-container'));
+    const read = (index: number, origin: string, destination: string, legDate: string) =>
+      extractJourney(async group => extractRecords(journeys[index], group), DEFAULT_SELECTORS, origin, destination, legDate);
+    return { response, html, document, journeys, read };
+  };
+
+  const fetchAvailability = async (html: string, baseUrl: string): Promise<AvailabilityResponse> => {
+    const [, path] = html.match(/fetch\('([^']+)'\)/)!;
+    return (await fetch(new URL(path, baseUrl))).json();
+  };
+
+  it('serves a selection page with a cookie banner, carousel and flight cards', async () => {
+    const { response, document, read } = await openPage(server.url);
+
+    assert.equal(response.status, 200);
+    assert.ok(document.querySelector('button[data-ref="cookie.accept-all"]'));
+    const journey = await read(0, 'BUD', 'STN', '2026-08-22');
+    assert.equal(journey.datePrices.length, 5);
+    assert.equal(journey.flights.length, 2);
+
+    const selected = journey.datePrices.find(datePrice => datePrice.isSelected);
+    assert.equal(selected?.isoDate, '2026-08-22');
+    // The carousel shows the cheapest flight of the day
+    assert.deepEqual(selected?.price, journey.flights[0].price);
+  });
+
+  it('serves the same fares from the availability API as on the page', async () => {
+    const { html, read } = await openPage(server.url);
+    const fromPage = await read(0, 'BUD', 'STN', '2026-08-22');
+    const fromApi = journeyFromAvailability(await fetchAvailability(html, server.url), 'BUD', 'STN', '2026-08-22');
+
+    assert.deepEqual(fromApi?.datePrices.map(datePrice => [datePrice.isoDate, datePrice.price]),
+      fromPage.datePrices.map(datePrice => [datePrice.isoDate, datePrice.price]));
+    assert.deepEqual(fromApi?.flights.map(flight => flight.price), fromPage.flights.map(flight => flight.price));
+  });
+
+  it('serves the bundles of the API on the page, plus the Regular bundle only the page has', async () => {
+    const { html, read } = await openPage(server.url);
+    const fromPage = await read(0, 'BUD', 'STN', '2026-08-22');
+    const fromApi = journeyFromAvailability(await fetchAvailability(html, server.url), 'BUD', 'STN', '2026-08-22');
+
+    const pageBundles = fromPage.flights[0].bundles!;
+    assert.deepEqual(pageBundles.map(bundle => bundle.name), ['Basic', 'Regular', 'Plus', 'Flexi Plus']);
+    assert.deepEqual(pageBundles[0].price, fromPage.flights[0].price);
+    assert.ok(pageBundles[1].includes.includes('cabin-bag'));
+    assert.deepEqual(fromApi?.flights[0].bundles?.map(({ name, price }) => ({ name, price })),
+      pageBundles.filter(bundle => bundle.name !== 'Regular').map(({ name, price }) => ({ name, price })));
+    // So searches for Regular fares read the page even in network mode
+    assert.deepEqual(FARE_BUNDLES.map(bundle => bundle.name).filter(availabilityHasBundle), ['Basic', 'Plus', 'Flexi Plus']);
+  });
+
+  it('serves both legs of a return search', async () => {
+    const { journeys, read } = await openPage(server.url, '2026-08-22', '2026-08-29');
+
+    assert.equal(journeys.length, 2);
+    const inbound = await read(1, 'STN', 'BUD', '2026-08-29');
+    assert.equal(inbound.datePrices.find(datePrice => datePrice.isSelected)?.isoDate, '2026-08-29');
+  });
+
+  it('keeps fares the same between runs of the normal scenario', async () => {
+    const first = await (await openPage(server.url)).read(0, 'BUD', 'STN', '2026-08-22');
+    const second = await (await openPage(server.url)).read(0, 'BUD', 'STN', '2026-08-22');
+
+    assert.deepEqual(second.flights.map(flight => flight.price), first.flights.map(flight => flight.price));
+  });
+
+  it('lowers fares on every run of the price-drop scenario', async () => {
+    const baseUrl = `${server.url}/scenario/price-drop`;
+    const first = await openPage(baseUrl);
+    const firstJourney = await first.read(0, 'BUD', 'STN', '2026-08-22');
+    const second = await openPage(baseUrl);
+    const secondJourney = await second.read(0, 'BUD', 'STN', '2026-08-22');
+
+    assert.equal(firstJourney.flights[0].price!.amount - secondJourney.flights[0].price!.amount, 500);
+    // The page's own API request sees the fares of the same run
+    const fromApi = journeyFromAvailability(await fetchAvailability(second.html, server.url), 'BUD', 'STN', '2026-08-22');
+    assert.deepEqual(fromApi?.flights[0].price, secondJourney.flights[0].price);
+  });
+
+  it('sells out the searched date in the no-flights scenario', async () => {
+    const { read } = await openPage(`${server.url}/scenario/no-flights`);
+    const journey = await read(0, 'BUD', 'STN', '2026-08-22');
+
+    // Only the 'Check website' stand-in for the selected date is left, and it has no fare
+    assert.ok(journey.flights.every(flight => flight.price === null));
+    assert.equal(journey.datePrices.find(datePrice => datePrice.isSelected)?.price, null);
+    assert.ok(journey.datePrices.some(datePrice => datePrice.price));
+  });
+
+  it('renders no prices until its scripts run in the slow scenario', async () => {
+    const baseUrl = `${server.url}/scenario/slow`;
+    const { html, journeys } = await openPage(baseUrl);
+
+    assert.equal(journeys.length, 0);
+    const started = Date.now();
+    await fetchAvailability(html, server.url);
+    assert.ok(Date.now() - started >= 190);
+  });
+
+  it('answers with an access-denied page in the bot-wall scenario', async () => {
+    const { response, html } = await openPage(`${server.url}/scenario/bot-wall`);
+
+    assert.equal(response.status, 403);
+    assert.match(html, /Access Denied/);
+  });
+});
+
+// The end-to-end search needs a browser, which Puppeteer may not have been able to download
+const hasChrome = (() => {
+  try {
+    return existsSync(puppeteer.executablePath());
+  } catch (error) {
+    return false;
+  }
+})();
+
+describe('searching the mock server end to end', { skip: hasChrome ? false : 'no Chrome installed for Puppeteer' }, () => {
+  let server: MockServer;
+  const baseUrl = process.env.RYANAIR_BASE_URL;
+
+  before(async () => {
+    server = await startMockServer({ port: 0 });
+    process.env.RYANAIR_BASE_URL = `${server.url}/scenario/price-drop`;
+  });
+  after(async () => {
+    if (baseUrl === undefined) {
+      delete process.env.RYANAIR_BASE_URL;
+    } else {
+      process.env.RYANAIR_BASE_URL = baseUrl;
+    }
+    await server.close();
+  });
+
+  it('alerts once when the price drops between two runs', async () => {
+    const stores: Stores = { prices: createMemoryStore(), alertState: createMemoryAlertStateStore() };
+    const sent: AlertMessage[] = [];
+    const consoleNotifier = createConsoleNotifier();
+    const notifier = {
+      name: consoleNotifier.name,
+      async notify(message: AlertMessage) {
+        sent.push(message);
+        await consoleNotifier.notify(message);
+      }
+    };
+    const pool = createBrowserPool({ concurrency: 1, launchOptions: { headless: true, args: ['--no-sandbox'] } });
+
+    // One search and one digest per run, as a watch does
+    const run = async () => {
+      const digest = createAlertDigest();
+      const alerts: AlertSettings = { notifiers: [notifier], rules: DEFAULT_RULES, state: DEFAULT_ALERT_STATE_SETTINGS, digest };
+      const { alertCount } = await searchAndStore('BUD', 'STN', '2026-08-22', PASSENGERS, alerts, stores, { pool });
+      await digest.send();
+      return alertCount;
+    };
+
+    try {
+      assert.equal(await run(), 0);
+      assert.equal(sent.length, 0);
+
+      assert.ok(await run() > 0);
+      assert.equal(sent.length, 1);
+      assert.match(sent[0].text, /BUD -> STN/);
+    } finally {
+      await pool.close();
+    }
+  });
+
+  it('prices Regular fares from the page in network mode', async () => {
+    const stores: Stores = { prices: createMemoryStore(), alertState: createMemoryAlertStateStore() };
+    const alerts: AlertSettings = { notifiers: [], rules: DEFAULT_RULES, state: DEFAULT_ALERT_STATE_SETTINGS, digest: createAlertDigest() };
+    const pool = createBrowserPool({ concurrency: 1, launchOptions: { headless: true, args: ['--no-sandbox'] } });
+
+    try {
+      const { flightData } = await searchAndStore('BUD', 'STN', '2026-08-22', PASSENGERS, alerts, stores,
+        { mode: 'network', pool, bundle: 'Regular' });
+
+      assert.ok(flightData.flights.length > 0);
+      assert.ok(flightData.flights.every(flight => flight.price !== null));
+      assert.equal(flightData.datePrices.length, 1);
+      assert.equal((await stores.prices.history('BUD', 'STN', '2026-08-22', 'Regular')).length, 1);
+    } finally {
+      await pool.close();
+    }
+  });
+});
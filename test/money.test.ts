@@ -0,0 +1,29 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { parseMoney } from '../money';
+
+describe('parseMoney', () => {
+  it('reads the symbol and separators of each market', () => {
+    assert.deepEqual(parseMoney('£29.99'), { amount: 2999, currency: 'GBP' });
+    assert.deepEqual(parseMoney('1.234,56 €'), { amount: 123456, currency: 'EUR' });
+    assert.deepEqual(parseMoney('12 345 Ft'), { amount: 1234500, currency: 'HUF' });
+  });
+
+  it('keeps the dot of abbreviations that end in one', () => {
+    assert.deepEqual(parseMoney('45 kr.'), { amount: 4500, currency: 'DKK' });
+    assert.deepEqual(parseMoney('89,99 лв.'), { amount: 8999, currency: 'BGN' });
+  });
+
+  it('tells the krone and krona apart with the currency hint', () => {
+    assert.equal(parseMoney('459 kr')?.currency, 'SEK');
+    assert.equal(parseMoney('459 kr', 'NOK')?.currency, 'NOK');
+    assert.equal(parseMoney('459 kr', 'DKK')?.currency, 'DKK');
+    // A hint does not override a symbol only one currency uses
+    assert.equal(parseMoney('€45', 'NOK')?.currency, 'EUR');
+  });
+
+  it('falls back to the hint when the price has no symbol', () => {
+    assert.equal(parseMoney('29.99'), null);
+    assert.deepEqual(parseMoney('29.99', 'EUR'), { amount: 2999, currency: 'EUR' });
+  });
+});
@@ -0,0 +1,105 @@
+import assert from 'assert/strict';
+import { describe, it } from 'node:test';
+import { Writable } from 'stream';
+import { OutputFormat, SearchInfo, writeResult } from '../output';
+import { DatePrice, FlightData, FlightPriceResult } from '../types';
+
+const eur = (amount: number) => ({ amount, currency: 'EUR' });
+
+const flight = (flightNumber: string, amount: number | null, extra: Partial<FlightData> = {}): FlightData => ({
+  flightNumber,
+  departureTime: '06:25',
+  arrivalTime: '07:50',
+  price: amount === null ? null : eur(amount),
+  duration: '2h 25m',
+  fromAirport: 'Budapest',
+  toAirport: 'London Stansted',
+  ...extra
+});
+
+const datePrice = (isoDate: string, amount: number | null, isSelected = false, extra: Partial<DatePrice> = {}): DatePrice => ({
+  date: isoDate.substring(8),
+  isoDate,
+  weekday: 'Sat',
+  price: amount === null ? null : eur(amount),
+  isSelected,
+  ...extra
+});
+
+// Write the result in a format and return the lines written
+function write(result: FlightPriceResult, search: SearchInfo, format: OutputFormat): string[] {
+  let text = '';
+  const stream = new Writable({
+    write(chunk, _encoding, callback) {
+      text += chunk.toString();
+      callback();
+    }
+  });
+  writeResult(result, search, format, stream);
+  return text.split('\n').slice(0, -1);
+}
+
+describe('writeResult', () => {
+  const returnTrip: FlightPriceResult = {
+    flights: [flight('FR 1234', 2999)],
+    datePrices: [datePrice('2026-08-22', 2999, true), datePrice('2026-08-23', null)],
+    inbound: {
+      flights: [flight('FR 1235', 4550, { departureTime: '08:30', arrivalTime: '11:45' })],
+      datePrices: [datePrice('2026-08-29', 4550, true)]
+    }
+  };
+  const returnSearch: SearchInfo = { origin: 'BUD', destination: 'STN', date: '2026-08-22', returnDate: '2026-08-29' };
+
+  it('writes a csv header and one row per flight and date, outbound first', () => {
+    assert.deepEqual(write(returnTrip, returnSearch, 'csv'), [
+      'leg,kind,origin,destination,date,weekday,flightNumber,departureTime,arrivalTime,duration,price,currency,bundle,selected',
+      'outbound,flight,BUD,STN,2026-08-22,,FR 1234,06:25,07:50,2h 25m,29.99,EUR,,',
+      'outbound,date,BUD,STN,2026-08-22,Sat,,,,,29.99,EUR,,true',
+      'outbound,date,BUD,STN,2026-08-23,Sat,,,,,,,,false',
+      'inbound,flight,STN,BUD,2026-08-29,,FR 1235,08:30,11:45,2h 25m,45.5,EUR,,',
+      'inbound,date,STN,BUD,2026-08-29,Sat,,,,,45.5,EUR,,true'
+    ]);
+  });
+
+  it('writes the same rows as ndjson', () => {
+    const rows = write(returnTrip, returnSearch, 'ndjson').map(line => JSON.parse(line));
+    assert.deepEqual(rows.map(row => `${row.leg} ${row.kind} ${row.origin}-${row.destination} ${row.date}`), [
+      'outbound flight BUD-STN 2026-08-22',
+      'outbound date BUD-STN 2026-08-22',
+      'outbound date BUD-STN 2026-08-23',
+      'inbound flight STN-BUD 2026-08-29',
+      'inbound date STN-BUD 2026-08-29'
+    ]);
+    assert.deepEqual(rows[2], {
+      leg: 'outbound', kind: 'date', origin: 'BUD', destination: 'STN', date: '2026-08-23', weekday: 'Sat', flightNumber: '',
+      departureTime: '', arrivalTime: '', duration: '', price: null, currency: '', bundle: '', selected: false
+    });
+  });
+
+  it('gives each row of a multi-pair sweep its own airports and no flight date', () => {
+    const result: FlightPriceResult = {
+      flights: [
+        flight('FR 1', 1999, { pair: { origin: 'BUD', destination: 'LTN' } }),
+        flight('FR 2', 2599, { pair: { origin: 'BUD', destination: 'STN' } })
+      ],
+      datePrices: [datePrice('2026-08-22', 1999, false, { pair: { origin: 'BUD', destination: 'LTN' } })]
+    };
+    const rows = write(result, { origin: 'BUD', destination: 'LON', date: '2026-08-22', dateTo: '2026-08-25', bundle: 'Regular' }, 'csv');
+
+    assert.deepEqual(rows.slice(1), [
+      'outbound,flight,BUD,LTN,,,FR 1,06:25,07:50,2h 25m,19.99,EUR,Regular,',
+      'outbound,flight,BUD,STN,,,FR 2,06:25,07:50,2h 25m,25.99,EUR,Regular,',
+      'outbound,date,BUD,LTN,2026-08-22,Sat,,,,,19.99,EUR,Regular,false'
+    ]);
+  });
+
+  it('quotes csv cells holding commas, quotes or line breaks', () => {
+    const result: FlightPriceResult = {
+      flights: [flight('FR "1", FR 2', 2999, { duration: '2h\n25m' })],
+      datePrices: []
+    };
+    const csv = write(result, { origin: 'BUD', destination: 'STN', date: '2026-08-22' }, 'csv').slice(1).join('\n');
+
+    assert.equal(csv, 'outbound,flight,BUD,STN,2026-08-22,,"FR ""1"", FR 2",06:25,07:50,"2h\n25m",29.99,EUR,,');
+  });
+});
@@ -0,0 +1,30 @@
+import assert from 'assert/strict';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import { describe, it } from 'node:test';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parseCron } from '../cron';
+import { RunOutcome, ScheduledJob, startScheduler } from '../scheduler';
+
+const job = (name: string, outcome: RunOutcome): ScheduledJob => ({
+  name,
+  schedule: parseCron('@daily'),
+  jitterMinutes: 0,
+  run: async () => outcome
+});
+
+describe('startScheduler', () => {
+  it('records runs that finished, even during shutdown, and not those that were interrupted', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'schedule-'));
+    const statePath = join(dir, 'schedule-state.json');
+    try {
+      // Jobs that never ran start straight away, and stop() waits for them
+      await startScheduler([job('finished', 'finished'), job('interrupted', 'interrupted')], statePath).stop();
+
+      assert.ok(existsSync(statePath));
+      assert.deepEqual(Object.keys(JSON.parse(readFileSync(statePath, 'utf8'))), ['finished']);
+    } finally {
+      rmSync(dir, { recursive: true });
+    }
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'assert/strict';
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { describe, it } from 'node:test';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { loadWatchlist, Watchlist } from '../watchlist';
+
+// Write a watchlist with these watches to a temporary file and load it as of 1 August 2026
+function load(watches: object[]): Watchlist {
+  const dir = mkdtempSync(join(tmpdir(), 'watchlist-'));
+  try {
+    const path = join(dir, 'watchlist.json');
+    writeFileSync(path, JSON.stringify({ watches }));
+    return loadWatchlist(path, '2026-08-01');
+  } finally {
+    rmSync(dir, { recursive: true });
+  }
+}
+
+describe('loadWatchlist', () => {
+  it('skips watches whose dates have passed and starts ranges today', () => {
+    const { watches } = load([
+      { name: 'past', origin: 'BUD', destination: 'STN', date: '2026-07-31' },
+      { name: 'past range', origin: 'BUD', destination: 'STN', dateRange: { from: '2026-07-01', to: '2026-07-31' } },
+      { name: 'today', origin: 'BUD', destination: 'STN', date: '2026-08-01' },
+      { name: 'running range', origin: 'BUD', destination: 'STN', dateRange: { from: '2026-07-20', to: '2026-08-10' } }
+    ]);
+
+    assert.deepEqual(watches.map(watch => `${watch.name} ${watch.dateFrom}..${watch.dateTo}`), [
+      'today 2026-08-01..2026-08-01',
+      'running range 2026-08-01..2026-08-10'
+    ]);
+  });
+
+  it('only accepts airports outside the catalog in watches that allow them', () => {
+    assert.throws(() => load([{ name: 'typo', origin: 'BUD', destination: 'MNA', date: '2026-08-22' }]),
+      /Watch typo: destination "MNA" is not an airport in the catalog/);
+    const { watches } = load([{ name: 'Riga', origin: 'BUD', destination: 'RIX', date: '2026-08-22', anyAirport: true }]);
+    assert.deepEqual(watches[0].destinations, ['RIX']);
+    assert.equal(watches[0].anyAirport, true);
+  });
+
+  it('loads the example watchlist', () => {
+    const { watches } = loadWatchlist(join(__dirname, '..', 'watchlist.example.json'), '2026-08-01');
+    assert.equal(watches.length, 2);
+  });
+});
@@ -0,0 +1,68 @@
+import { Money } from './money';
+
+// Selector each field was read with when scraped from the page, by field name,
+// e.g. { container: '.date-item', price: '.date-item__price' }
+export type SelectorMatches = { [field: string]: string };
+
+export interface AirportPair {
+  origin: string;
+  destination: string;
+}
+
+// What a fare bundle comes with, as far as the scraper can tell
+export type BundleItem = 'small-bag' | 'cabin-bag' | 'checked-bag' | 'seat' | 'priority' | 'flexible';
+
+export interface FareBundle {
+  // Standard bundle name, e.g. 'Basic', 'Regular', 'Plus' or 'Flexi Plus'
+  name: string;
+  // null when the bundle is shown but cannot be bought for this flight
+  price: Money | null;
+  includes: BundleItem[];
+  // Only present when scraped from the page rather than read from the API
+  matched?: SelectorMatches;
+}
+
+export interface DatePrice {
+  // Day and month as shown in the carousel, e.g. '22 Aug'
+  date: string;
+  // Full date in 'YYYY-MM-DD' format, with the year resolved from the requested date
+  isoDate: string;
+  weekday: string;
+  // null when the date has no fare (sold out or not operated)
+  price: Money | null;
+  isSelected: boolean;
+  // Airports searched, when the results of several airport pairs are merged
+  pair?: AirportPair;
+  // Only present when scraped from the page rather than read from the API
+  matched?: SelectorMatches;
+}
+
+export interface FlightData {
+  flightNumber: string;
+  departureTime: string;
+  arrivalTime: string;
+  // The headline (Basic) fare, or the chosen bundle's fare once a bundle is targeted
+  price: Money | null;
+  duration: string;
+  fromAirport: string;
+  toAirport: string;
+  // Every bundle the flight is sold in, as listed on the page or API; absent when neither showed any
+  bundles?: FareBundle[];
+  // Airports searched, when the results of several airport pairs are merged
+  pair?: AirportPair;
+  // Only present when scraped from the page rather than read from the API
+  matched?: SelectorMatches;
+}
+
+export interface JourneyPrices {
+  flights: FlightData[];
+  datePrices: DatePrice[];
+}
+
+export interface FlightPriceResult extends JourneyPrices {
+  // Only present for return searches; flights/datePrices above are the outbound leg
+  inbound?: JourneyPrices;
+}
+
+// 'network' reads the availability API responses and falls back to DOM scraping, 'dom' only scrapes
+export type ExtractionMode = 'network' | 'dom';
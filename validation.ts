@@ -0,0 +1,37 @@
+import { PassengerMix } from './watchlist';
+
+// Largest party Ryanair books online; infants travel on an adult's lap and do not count
+export const MAX_PARTY_SIZE = 25;
+
+/**
+ * Validate an airport code such as 'BUD'
+ * @returns An error message, or null if the code is valid
+ */
+export function checkIataCode(code: string, field: string): string | null {
+  return /^[A-Z]{3}$/.test(code) ? null : `${field} "${code}" must be a three-letter IATA airport code such as BUD`;
+}
+
+/**
+ * Validate a party against Ryanair's booking rules: at least one adult,
+ * no more infants than adults and at most MAX_PARTY_SIZE seated passengers
+ * @returns An error message, or null if the party can be booked
+ */
+export function checkPassengers(passengers: PassengerMix): string | null {
+  const { adults, teens, children, infants } = passengers;
+  for (const [field, count] of Object.entries(passengers)) {
+    if (!Number.isInteger(count) || count < 0) {
+      return `${field} must be a whole number of 0 or more`;
+    }
+  }
+
+  if (adults < 1) {
+    return 'at least one adult is required';
+  }
+  if (infants > adults) {
+    return `each infant travels on an adult's lap, so there can be at most ${adults} infant${adults === 1 ? '' : 's'} for ${adults} adult${adults === 1 ? '' : 's'}`;
+  }
+  if (adults + teens + children > MAX_PARTY_SIZE) {
+    return `at most ${MAX_PARTY_SIZE} passengers (adults, teens and children) can be booked together`;
+  }
+  return null;
+}
@@ -0,0 +1,258 @@
+import { readFileSync } from 'fs';
+import { checkAirportPairs, checkAirports, expandAirports } from './airport-groups';
+import { AlertRule, checkRule, DEFAULT_RULES } from './alert-rules';
+import { AlertStateSettings, DEFAULT_ALERT_STATE_SETTINGS } from './alert-state';
+import { BrowserPoolOptions } from './browser-pool';
+import { daysBetween, isIsoDate, toIsoDate } from './dates';
+import { bundleName, checkBundle } from './fare-bundles';
+import { ChannelConfig, channelsFromEnv } from './notifier';
+import { CronSchedule, parseCron } from './cron';
+import { checkPassengers } from './validation';
+
+export interface PassengerMix {
+  adults: number;
+  teens: number;
+  children: number;
+  infants: number;
+}
+
+export interface WatchAlerts {
+  // Send price drop alerts for this watch (default: true)
+  enabled: boolean;
+  // Where to send them; defaults to the channels configured in the environment
+  channels: ChannelConfig[];
+  // When to send them; defaults to any drop since the last stored price
+  rules: AlertRule[];
+  // Cooldown and rearm amount for repeat alerts
+  state: AlertStateSettings;
+}
+
+export interface Watch {
+  name: string;
+  // As written, e.g. 'BUD', 'LON', 'STN,BGY' or 'Manchester'
+  origin: string;
+  destination: string;
+  // Airports to search, city groups expanded; every pair is searched and the results ranked together
+  origins: string[];
+  destinations: string[];
+  // Codes of airports the catalog does not have were accepted, so their routes are not checked
+  anyAirport: boolean;
+  // Outbound dates to search in 'YYYY-MM-DD' format; equal for a single date, otherwise the range is swept
+  dateFrom: string;
+  dateTo: string;
+  returnDate?: string;
+  passengers: PassengerMix;
+  // Fare bundle that is priced, stored and alerted on instead of the headline fare, e.g. 'Regular'
+  bundle?: string;
+  alerts: WatchAlerts;
+  // When to run the watch in daemon mode
+  schedule: CronSchedule;
+  // Maximum random delay after each scheduled time, in minutes
+  jitterMinutes: number;
+}
+
+// A watch as written in the watchlist file
+type WatchAlertsConfig = Partial<Omit<WatchAlerts, 'state'>> & Partial<AlertStateSettings>;
+
+interface WatchConfig {
+  name?: string;
+  origin: string;
+  destination: string;
+  anyAirport?: boolean;
+  date?: string;
+  dateRange?: { from: string; to: string };
+  returnDate?: string;
+  passengers?: Partial<PassengerMix>;
+  bundle?: string;
+  alerts?: WatchAlertsConfig;
+  schedule?: string;
+  jitterMinutes?: number;
+}
+
+type PoolSettings = Partial<Pick<BrowserPoolOptions, 'concurrency' | 'maxPagesPerBrowser' | 'maxUsesPerBrowser'>>;
+
+export interface Watchlist {
+  watches: Watch[];
+  // Limits for the browser pool shared by all searches in the run
+  browserPool: PoolSettings;
+}
+
+interface WatchlistFile {
+  watches: WatchConfig[];
+  browserPool?: PoolSettings;
+  // Defaults for watches without a schedule or jitter of their own
+  schedule?: string;
+  jitterMinutes?: number;
+}
+
+// Every six hours, a few minutes apart per watch
+const DEFAULT_SCHEDULE = '0 */6 * * *';
+const DEFAULT_JITTER_MINUTES = 10;
+
+// Keeps a typo in a range from turning into hundreds of searches
+export const MAX_DATES_PER_WATCH = 62;
+
+/**
+ * Load and validate a JSON watchlist file.
+ * Like dates given on the command line, only dates from today on are searched: watches whose
+ * dates have all passed are skipped, and date ranges that started in the past start today.
+ * @param path Path to the watchlist file
+ * @param today Today's date in 'YYYY-MM-DD' format
+ * @returns Watches with defaults filled in and date ranges expanded, plus the browser pool settings
+ */
+export function loadWatchlist(path: string, today: string = toIsoDate(new Date())): Watchlist {
+  const file = JSON.parse(readFileSync(path, 'utf8')) as WatchlistFile;
+  if (!file || !Array.isArray(file.watches)) {
+    throw new Error(`Watchlist ${path} must contain a "watches" array`);
+  }
+
+  const browserPool = file.browserPool || {};
+  for (const [key, value] of Object.entries(browserPool)) {
+    if (!Number.isInteger(value) || value < 1) {
+      throw new Error(`Watchlist ${path}: browserPool.${key} must be a positive integer`);
+    }
+  }
+
+  const watches = file.watches.map((config, index) => toWatch({
+    schedule: file.schedule,
+    jitterMinutes: file.jitterMinutes,
+    ...config
+  }, index));
+
+  return {
+    watches: watches
+      .filter(watch => {
+        if (watch.dateTo < today) {
+          console.log(`Skipping watch ${watch.name}: its dates are in the past (today is ${today})`);
+          return false;
+        }
+        return true;
+      })
+      .map(watch => watch.dateFrom < today ? { ...watch, dateFrom: today } : watch),
+    browserPool
+  };
+}
+
+function toWatch(config: WatchConfig, index: number): Watch {
+  const label = config.name || `#${index + 1}`;
+  const fail = (message: string): never => {
+    throw new Error(`Watch ${label}: ${message}`);
+  };
+
+  if (!config.origin || !config.destination) {
+    fail('origin and destination are required');
+  }
+  const origin = config.origin.trim();
+  const destination = config.destination.trim();
+  if (config.anyAirport !== undefined && typeof config.anyAirport !== 'boolean') {
+    fail('anyAirport must be true or false');
+  }
+  const anyAirport = config.anyAirport === true;
+  const airportError = checkAirports(origin, 'origin', anyAirport) || checkAirports(destination, 'destination', anyAirport);
+  if (airportError) fail(airportError);
+  const origins = expandAirports(origin);
+  const destinations = expandAirports(destination);
+  const routeError = checkAirportPairs(origins, destinations);
+  if (routeError) fail(routeError);
+
+  let dateFrom = '';
+  let dateTo = '';
+  if (config.date) {
+    if (!isIsoDate(config.date)) fail(`date "${config.date}" must be a valid YYYY-MM-DD date`);
+    dateFrom = dateTo = config.date;
+  } else if (config.dateRange) {
+    const { from, to } = config.dateRange;
+    if (!isIsoDate(from) || !isIsoDate(to)) fail('dateRange from/to must be valid YYYY-MM-DD dates');
+    if (from > to) fail(`dateRange starts after it ends (${from} > ${to})`);
+    if (daysBetween(from, to) >= MAX_DATES_PER_WATCH) fail(`dateRange covers more than ${MAX_DATES_PER_WATCH} days`);
+    dateFrom = from;
+    dateTo = to;
+  } else {
+    fail('either date or dateRange is required');
+  }
+
+  if (config.returnDate && !isIsoDate(config.returnDate)) {
+    fail(`returnDate "${config.returnDate}" must be a valid YYYY-MM-DD date`);
+  }
+  if (config.returnDate && config.returnDate < dateFrom) {
+    fail(`returnDate ${config.returnDate} is before the outbound date ${dateFrom}`);
+  }
+  if (config.returnDate && config.dateRange) {
+    // A sweep only follows the outbound carousel
+    fail('returnDate can only be used with a single date');
+  }
+
+  const passengers: PassengerMix = {
+    adults: config.passengers?.adults ?? 1,
+    teens: config.passengers?.teens ?? 0,
+    children: config.passengers?.children ?? 0,
+    infants: config.passengers?.infants ?? 0
+  };
+  const passengerError = checkPassengers(passengers);
+  if (passengerError) fail(`passengers: ${passengerError}`);
+
+  const bundleError = config.bundle !== undefined ? checkBundle(String(config.bundle), 'bundle') : null;
+  if (bundleError) fail(bundleError);
+
+  return {
+    name: config.name || `${config.origin}-${config.destination}`,
+    origin,
+    destination,
+    origins,
+    destinations,
+    anyAirport,
+    dateFrom,
+    dateTo,
+    returnDate: config.returnDate,
+    passengers,
+    bundle: config.bundle !== undefined ? bundleName(config.bundle)! : undefined,
+    alerts: {
+      enabled: config.alerts?.enabled ?? true,
+      channels: config.alerts?.channels ? config.alerts.channels.map(channel => checkChannel(channel, fail)) : channelsFromEnv(),
+      rules: config.alerts?.rules ? config.alerts.rules.map(rule => {
+        const error = checkRule(rule);
+        return error ? fail(error) : rule;
+      }) : DEFAULT_RULES,
+      state: {
+        cooldownHours: nonNegative(config.alerts?.cooldownHours, DEFAULT_ALERT_STATE_SETTINGS.cooldownHours, 'alerts.cooldownHours', fail),
+        rearmAmount: nonNegative(config.alerts?.rearmAmount, DEFAULT_ALERT_STATE_SETTINGS.rearmAmount, 'alerts.rearmAmount', fail)
+      }
+    },
+    schedule: checkSchedule(config.schedule || DEFAULT_SCHEDULE, fail),
+    jitterMinutes: nonNegative(config.jitterMinutes, DEFAULT_JITTER_MINUTES, 'jitterMinutes', fail)
+  };
+}
+
+function checkChannel(channel: ChannelConfig, fail: (message: string) => never): ChannelConfig {
+  switch (channel.type) {
+    case 'email':
+      if (!Array.isArray(channel.to) || channel.to.length === 0) fail('email channel needs at least one "to" address');
+      break;
+    case 'webhook':
+      if (!/^https?:\/\//.test(channel.url || '')) fail('webhook channel needs an http(s) "url"');
+      break;
+    case 'log':
+      if (!channel.path) fail('log channel needs a "path"');
+      break;
+    case 'console':
+      break;
+    default:
+      fail(`unknown alert channel type "${(channel as { type: string }).type}"`);
+  }
+  return channel;
+}
+
+function checkSchedule(expression: string, fail: (message: string) => never): CronSchedule {
+  try {
+    return parseCron(expression);
+  } catch (error) {
+    return fail(error instanceof Error ? error.message : String(error));
+  }
+}
+
+function nonNegative(value: number | undefined, fallback: number, field: string, fail: (message: string) => never): number {
+  if (value === undefined) {
+    return fallback;
+  }
+  return typeof value === 'number' && isFinite(value) && value >= 0 ? value : fail(`${field} must be a non-negative number`);
+}